@@ -1,18 +1,37 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import * as fs from 'fs';
 import * as path from 'path';
+import { timingSafeEqual } from 'crypto';
+import { getJobStore, MAX_STORED_JOBS } from '../src/jobs/index.js';
+import {
+  deliveryDetail,
+  deliverySummary,
+  getDeliveryStore,
+  MAX_STORED_DELIVERIES,
+  processDueDeliveries,
+  redeliver,
+} from '../src/deliveries/index.js';
+import { authenticateApiKey, McpAuthError } from '../src/auth/index.js';
+import { postWebhook, webhookPolicyFor, WebhookBlockedError } from '../src/webhooks/index.js';
 
-// Simple in-memory job storage (in production, use Vercel KV or database)
-interface JobRecord {
-  id: string;
-  timestamp: string;
-  listId: string;
-  ticketCount: number;
-  status: 'success' | 'failed';
-  error?: string;
+// The jobs and deliveries APIs take the same API keys as the MCP endpoints. Returns the
+// caller's tenant id (null when MCP_AUTH_DISABLED=true), or undefined after answering a rejection.
+function apiCaller(req: VercelRequest, res: VercelResponse): { tenantId: string | null } | undefined {
+  try {
+    const match = authenticateApiKey(req);
+    return { tenantId: match ? match.tenant.id : null };
+  } catch (error) {
+    const status = error instanceof McpAuthError ? error.status : 500;
+    if (status === 500) console.error('API auth error:', error);
+    res.status(status).json({ error: status === 500 ? 'Server authentication is misconfigured' : (error as Error).message });
+    return undefined;
+  }
 }
 
-const jobs: JobRecord[] = [];
+// Tenants only see their own jobs and deliveries; others are reported as not found
+function visibleTo<T extends { tenantId?: string }>(caller: { tenantId: string | null }, record: T | null): record is T {
+  return Boolean(record) && (caller.tenantId === null || record!.tenantId === caller.tenantId);
+}
 
 export default async function handler(
   req: VercelRequest,
@@ -35,21 +54,124 @@ export default async function handler(
 
   // API: Get recent jobs
   if (pathname === '/api/jobs' && req.method === 'GET') {
-    res.status(200).json({
-      jobs: jobs.slice(-50).reverse(), // Last 50 jobs, newest first
-    });
+    const caller = apiCaller(req, res);
+    if (!caller) return;
+
+    try {
+      const jobs = (await getJobStore().list(MAX_STORED_JOBS)).filter(job => visibleTo(caller, job));
+      res.status(200).json({
+        jobs: jobs.slice(0, 50), // Last 50 jobs, newest first
+      });
+    } catch (error) {
+      console.error('Failed to list jobs:', error);
+      res.status(500).json({ error: 'Failed to load jobs' });
+    }
     return;
   }
 
   // API: Get specific job
   if (pathname?.startsWith('/api/jobs/') && req.method === 'GET') {
-    const jobId = pathname.split('/').pop();
-    const job = jobs.find(j => j.id === jobId);
-    
-    if (job) {
-      res.status(200).json(job);
-    } else {
-      res.status(404).json({ error: 'Job not found' });
+    const caller = apiCaller(req, res);
+    if (!caller) return;
+    const jobId = pathname.split('/').pop() || '';
+
+    try {
+      const job = await getJobStore().get(jobId);
+
+      if (visibleTo(caller, job)) {
+        res.status(200).json(job);
+      } else {
+        res.status(404).json({ error: 'Job not found' });
+      }
+    } catch (error) {
+      console.error('Failed to load job:', error);
+      res.status(500).json({ error: 'Failed to load job' });
+    }
+    return;
+  }
+
+  // API: Run due outbox deliveries. Meant for a scheduler (Vercel Cron sends GET with
+  // Authorization: Bearer $CRON_SECRET); refused outright while CRON_SECRET is unset.
+  if (pathname === '/api/deliveries/process' && (req.method === 'GET' || req.method === 'POST')) {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      console.error('CRON_SECRET is not set; refusing to process deliveries');
+      res.status(503).json({ error: 'Delivery processing is not configured' });
+      return;
+    }
+    const expected = Buffer.from(`Bearer ${cronSecret}`);
+    const given = Buffer.from(req.headers.authorization || '');
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    try {
+      const processed = await processDueDeliveries();
+      res.status(200).json({ processed: processed.map(deliverySummary) });
+    } catch (error) {
+      console.error('Failed to process deliveries:', error);
+      res.status(500).json({ error: 'Failed to process deliveries' });
+    }
+    return;
+  }
+
+  // API: Get recent webhook deliveries that needed the outbox
+  if (pathname === '/api/deliveries' && req.method === 'GET') {
+    const caller = apiCaller(req, res);
+    if (!caller) return;
+
+    try {
+      const deliveries = (await getDeliveryStore().list(MAX_STORED_DELIVERIES)).filter(d => visibleTo(caller, d));
+      res.status(200).json({
+        deliveries: deliveries.slice(0, 50).map(deliverySummary), // Newest first
+      });
+    } catch (error) {
+      console.error('Failed to list deliveries:', error);
+      res.status(500).json({ error: 'Failed to load deliveries' });
+    }
+    return;
+  }
+
+  // API: Redeliver now
+  const redeliverMatch = /^\/api\/deliveries\/([^/]+)\/redeliver$/.exec(pathname || '');
+  if (redeliverMatch && req.method === 'POST') {
+    const caller = apiCaller(req, res);
+    if (!caller) return;
+
+    try {
+      const deliveryId = decodeURIComponent(redeliverMatch[1]);
+      const delivery = visibleTo(caller, await getDeliveryStore().get(deliveryId)) ? await redeliver(deliveryId) : null;
+
+      if (delivery) {
+        res.status(200).json(deliveryDetail(delivery));
+      } else {
+        res.status(404).json({ error: 'Delivery not found' });
+      }
+    } catch (error) {
+      console.error('Failed to redeliver:', error);
+      res.status(500).json({ error: 'Failed to redeliver' });
+    }
+    return;
+  }
+
+  // API: Get specific delivery, with its attempt history
+  if (pathname?.startsWith('/api/deliveries/') && req.method === 'GET') {
+    const caller = apiCaller(req, res);
+    if (!caller) return;
+    const deliveryId = decodeURIComponent(pathname.split('/').pop() || '');
+
+    try {
+      const delivery = await getDeliveryStore().get(deliveryId);
+
+      if (visibleTo(caller, delivery)) {
+        res.status(200).json(deliveryDetail(delivery));
+      } else {
+        res.status(404).json({ error: 'Delivery not found' });
+      }
+    } catch (error) {
+      console.error('Failed to load delivery:', error);
+      res.status(500).json({ error: 'Failed to load delivery' });
     }
     return;
   }
@@ -74,15 +196,15 @@ export default async function handler(
         },
       };
 
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(testPayload),
-      });
+      // Same target policy as sprint deliveries, so this can't be used to probe internal hosts
+      const response = await postWebhook(
+        webhookUrl,
+        JSON.stringify(testPayload),
+        { 'Content-Type': 'application/json' },
+        webhookPolicyFor(null),
+      );
 
-      if (response.ok) {
+      if (response.status >= 200 && response.status < 300) {
         res.status(200).json({ success: true, message: 'Webhook test successful' });
       } else {
         res.status(200).json({
@@ -91,6 +213,10 @@ export default async function handler(
         });
       }
     } catch (error) {
+      if (error instanceof WebhookBlockedError) {
+        res.status(400).json({ success: false, message: `Webhook target blocked: ${error.reason}` });
+        return;
+      }
       res.status(200).json({
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error',
@@ -3,8 +3,10 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { clickupSyncTool } from '../src/tools/clickup-sync.js';
 import { analyzeTicketTool } from '../src/tools/analyze-ticket.js';
 import { sprintFormatterTool } from '../src/tools/sprint-formatter.js';
+import { clickupWriteBackTool } from '../src/tools/clickup-write-back.js';
 import { ticketAnalyzerAgent } from '../src/agents/ticket-analyzer.js';
 import { sprintSyncWorkflow } from '../src/workflows/sprint-sync.js';
+import { guardMcpRequest } from '../src/auth/index.js';
 
 // Create MCP server instance
 const mcpServer = new MCPServer({
@@ -16,6 +18,7 @@ const mcpServer = new MCPServer({
     clickup_sync: clickupSyncTool,
     analyze_ticket: analyzeTicketTool,
     sprint_formatter: sprintFormatterTool,
+    clickup_write_back: clickupWriteBackTool,
   },
   agents: {
     ticketAnalyzer: ticketAnalyzerAgent,
@@ -41,6 +44,11 @@ export default async function handler(
     return;
   }
 
+  // Bearer API key; rejected requests get a JSON-RPC error
+  if (!guardMcpRequest(req, res)) {
+    return;
+  }
+
   try {
     const url = new URL(req.url || '', `http://${req.headers.host}`);
 
@@ -3,8 +3,10 @@ import { MCPServer } from '@mastra/mcp';
 import { clickupSyncTool } from '../../src/tools/clickup-sync.js';
 import { analyzeTicketTool } from '../../src/tools/analyze-ticket.js';
 import { sprintFormatterTool } from '../../src/tools/sprint-formatter.js';
+import { clickupWriteBackTool } from '../../src/tools/clickup-write-back.js';
 import { ticketAnalyzerAgent } from '../../src/agents/ticket-analyzer.js';
 import { sprintSyncWorkflow } from '../../src/workflows/sprint-sync.js';
+import { guardMcpRequest } from '../../src/auth/index.js';
 
 // Create MCP server
 const mcpServer = new MCPServer({
@@ -16,6 +18,7 @@ const mcpServer = new MCPServer({
     clickup_sync: clickupSyncTool,
     analyze_ticket: analyzeTicketTool,
     sprint_formatter: sprintFormatterTool,
+    clickup_write_back: clickupWriteBackTool,
   },
   agents: {
     ticketAnalyzer: ticketAnalyzerAgent,
@@ -32,6 +35,7 @@ export default async function handler(
 ): Promise<void> {
   // Set CORS headers
   res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   // Handle OPTIONS for CORS
   if (req.method === 'OPTIONS') {
@@ -39,6 +43,11 @@ export default async function handler(
     return;
   }
 
+  // Bearer API key; rejected requests get a JSON-RPC error
+  if (!guardMcpRequest(req, res)) {
+    return;
+  }
+
   try {
     const url = new URL(req.url || '', `http://${req.headers.host}`);
 
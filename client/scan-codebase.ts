@@ -2,39 +2,89 @@
 
 /**
  * Codebase Scanner for Sprint Pilot
- * 
- * Scans a Next.js App Router project and generates a CodebaseMap JSON.
+ *
+ * Scans a project and generates a CodebaseMap JSON. The framework is detected
+ * from package.json: Next.js App Router (app/ or src/app/), Next.js Pages Router,
+ * Remix / React Router (flat routes), SvelteKit, or a generic directory map.
+ * Exported symbols and the import graph are extracted with the project's
+ * TypeScript compiler, honouring tsconfig `paths` aliases.
  * This script should be run from the root of your consumer project.
- * 
+ *
  * Usage:
  *   bun run scan-codebase.ts
  *   bun run scan-codebase.ts > codebase-map.json
  *   bun run scan-codebase.ts --output codebase-map.json
+ *   bun run scan-codebase.ts --framework next-pages
+ *   bun run scan-codebase.ts --output codebase-map.json --index
+ *   bun run scan-codebase.ts --output codebase-map.json --embeddings openai:text-embedding-3-small
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { createRequire } from 'module';
+import type * as TypeScript from 'typescript';
+
+type ExportKind = 'component' | 'action' | 'handler' | 'metadata' | 'function' | 'value';
+
+interface ExportSymbol {
+  name: string;
+  kind: ExportKind;
+}
 
 interface RouteInfo {
   path: string;
+  dir: string; // Directory of the route files, relative to the project root
   files: string[];
   exports?: string[];
 }
 
 interface CodebaseMap {
+  framework: string;
   routes: RouteInfo[];
   components: string[];
   actions: string[];
+  exports?: Record<string, ExportSymbol[]>; // Exported symbols by file path
+  graph?: DependencyGraph;
   scannedAt: string;
 }
 
-// Next.js App Router file patterns
-const ROUTE_FILES = ['page.tsx', 'page.ts', 'page.jsx', 'page.js'];
-const LAYOUT_FILES = ['layout.tsx', 'layout.ts', 'layout.jsx', 'layout.js'];
-const LOADING_FILES = ['loading.tsx', 'loading.ts', 'loading.jsx', 'loading.js'];
-const ERROR_FILES = ['error.tsx', 'error.ts', 'error.jsx', 'error.js'];
+// Project-internal imports: imports[i] lists the indexes of the files that files[i] imports
+interface DependencyGraph {
+  files: string[];
+  imports: number[][];
+}
+
+type Framework = 'next-app' | 'next-pages' | 'remix' | 'sveltekit' | 'generic';
+
+interface RouteScan {
+  routes: RouteInfo[];
+  actions: string[];
+}
+
+interface FrameworkDetector {
+  // Route roots that exist in the project, relative to the project root
+  roots(projectRoot: string): string[];
+  scan(projectRoot: string, root: string, maxDepth: number): RouteScan;
+}
+
+const SCRIPT_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs'];
+const COMPONENT_EXTENSIONS = ['.tsx', '.jsx', '.vue', '.svelte'];
+const SOURCE_EXTENSIONS = [...SCRIPT_EXTENSIONS, '.vue', '.svelte'];
+
+// Next.js App Router special files (any script extension)
+const NEXT_APP_FILES = ['page', 'layout', 'loading', 'error', 'template', 'not-found', 'route', 'default', 'global-error'];
 const ACTION_FILES = ['actions.ts', 'actions.tsx', 'actions.js'];
 
+// Remix route modules that export an action handle form submissions
+const REMIX_ACTION_EXPORT = /export\s+(async\s+)?function\s+action\b|export\s+(const|let)\s+action\b/;
+const SVELTEKIT_ACTIONS_EXPORT = /export\s+const\s+actions\b/;
+
+// A 'use server' directive before any other statement (comments allowed)
+const USE_SERVER_DIRECTIVE = /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*['"]use server['"]/;
+
+const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+const METADATA_EXPORTS = ['generateMetadata', 'metadata', 'generateViewport', 'viewport'];
+
 function isDirectory(filePath: string): boolean {
   try {
     return fs.statSync(filePath).isDirectory();
@@ -52,149 +102,764 @@ function shouldIgnoreDirectory(dirName: string): boolean {
     'build',
     '.vercel',
     '.turbo',
+    '.svelte-kit',
+    'coverage',
   ];
   return ignoredDirs.includes(dirName) || dirName.startsWith('.');
 }
 
-function extractRoutePath(relativePath: string): string {
-  // Remove 'app/' prefix
-  let routePath = relativePath.replace(/^app\/?/, '');
-  
-  // Remove route groups: (group-name)
-  routePath = routePath.replace(/\([^)]+\)/g, '');
-  
-  // Clean up multiple slashes
-  routePath = routePath.replace(/\/+/g, '/');
-  
-  // Ensure starts with /
-  if (!routePath.startsWith('/')) {
-    routePath = '/' + routePath;
-  }
-  
-  // Remove trailing slash unless it's root
-  if (routePath !== '/' && routePath.endsWith('/')) {
-    routePath = routePath.slice(0, -1);
-  }
-  
-  return routePath;
-}
-
-function scanDirectory(
-  baseDir: string,
-  currentDir: string,
-  depth: number,
-  maxDepth: number
-): {
-  routes: Map<string, RouteInfo>;
-  components: string[];
-  actions: string[];
-} {
-  const routes = new Map<string, RouteInfo>();
-  const components: string[] = [];
-  const actions: string[] = [];
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+function readText(filePath: string): string {
+  try {
+    return fs.readFileSync(filePath, 'utf-8');
+  } catch {
+    return '';
+  }
+}
 
+// List files under a directory, relative to the project root
+function walkFiles(projectRoot: string, dir: string, maxDepth: number, depth = 0): string[] {
   if (depth > maxDepth) {
-    return { routes, components, actions };
+    return [];
   }
 
-  const entries = fs.readdirSync(currentDir);
+  const files: string[] = [];
+  const fullDir = path.join(projectRoot, dir);
 
-  for (const entry of entries) {
-    const fullPath = path.join(currentDir, entry);
-    const relativePath = path.relative(baseDir, fullPath);
+  for (const entry of fs.readdirSync(fullDir)) {
+    const relativePath = toPosix(path.join(dir, entry));
 
-    if (isDirectory(fullPath)) {
-      if (shouldIgnoreDirectory(entry)) {
-        continue;
+    if (isDirectory(path.join(fullDir, entry))) {
+      if (!shouldIgnoreDirectory(entry)) {
+        files.push(...walkFiles(projectRoot, relativePath, maxDepth, depth + 1));
       }
-
-      // Recursively scan subdirectory
-      const subResults = scanDirectory(baseDir, fullPath, depth + 1, maxDepth);
-      
-      // Merge results
-      subResults.routes.forEach((value, key) => routes.set(key, value));
-      components.push(...subResults.components);
-      actions.push(...subResults.actions);
     } else {
-      const ext = path.extname(entry);
-      const basename = path.basename(entry, ext);
-
-      // Check if it's a route file
-      if (ROUTE_FILES.includes(entry) || 
-          LAYOUT_FILES.includes(entry) ||
-          LOADING_FILES.includes(entry) ||
-          ERROR_FILES.includes(entry)) {
-        
-        const routePath = extractRoutePath(path.dirname(relativePath));
-        const existing = routes.get(routePath);
-        
-        if (existing) {
-          existing.files.push(entry);
-        } else {
-          routes.set(routePath, {
-            path: routePath,
-            files: [entry],
-          });
-        }
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+function existingDirs(projectRoot: string, candidates: string[]): string[] {
+  return candidates.filter(dir => isDirectory(path.join(projectRoot, dir)));
+}
+
+function joinRoutePath(segments: string[]): string {
+  return '/' + segments.filter(Boolean).join('/');
+}
+
+// Group route files by directory and URL path
+function addRouteFile(routes: Map<string, RouteInfo>, routePath: string, dir: string, file: string): void {
+  const key = `${dir}\0${routePath}`;
+  const existing = routes.get(key);
+
+  if (existing) {
+    existing.files.push(file);
+  } else {
+    routes.set(key, { path: routePath, dir, files: [file] });
+  }
+}
+
+// Next.js App Router: app/ or src/app/. Route groups "(name)" and parallel route
+// slots "@name" don't appear in the URL; intercepting prefixes "(.)" are dropped.
+function nextAppSegment(segment: string): string {
+  if (/^\(.*\)$/.test(segment) || segment.startsWith('@')) {
+    return '';
+  }
+  return segment.replace(/^(\(\.{1,3}\))+/, '');
+}
+
+const nextAppDetector: FrameworkDetector = {
+  roots: projectRoot => existingDirs(projectRoot, ['app', 'src/app']),
+
+  scan(projectRoot, root, maxDepth) {
+    const routes = new Map<string, RouteInfo>();
+
+    for (const file of walkFiles(projectRoot, root, maxDepth)) {
+      const entry = path.posix.basename(file);
+      const ext = path.posix.extname(entry);
+      const dir = path.posix.dirname(file);
+
+      if (SCRIPT_EXTENSIONS.includes(ext) && NEXT_APP_FILES.includes(path.posix.basename(entry, ext))) {
+        const segments = path.posix.relative(root, dir).split('/').map(nextAppSegment);
+        addRouteFile(routes, joinRoutePath(segments), dir, entry);
       }
-      
-      // Check if it's a server actions file
-      if (ACTION_FILES.includes(entry)) {
-        actions.push(relativePath.replace(/\\/g, '/'));
+    }
+
+    return { routes: Array.from(routes.values()), actions: [] };
+  },
+};
+
+// Next.js Pages Router: every script under pages/ is a route; index maps to its
+// directory and underscore files (_app, _document) belong to the root
+const nextPagesDetector: FrameworkDetector = {
+  roots: projectRoot => existingDirs(projectRoot, ['pages', 'src/pages']),
+
+  scan(projectRoot, root, maxDepth) {
+    const routes = new Map<string, RouteInfo>();
+
+    for (const file of walkFiles(projectRoot, root, maxDepth)) {
+      const entry = path.posix.basename(file);
+      const ext = path.posix.extname(entry);
+      if (!SCRIPT_EXTENSIONS.includes(ext)) continue;
+
+      const dir = path.posix.dirname(file);
+      const name = path.posix.basename(entry, ext);
+      const segments = path.posix.relative(root, dir).split('/');
+      if (name !== 'index' && !name.startsWith('_')) {
+        segments.push(name);
       }
-      
-      // Check if it's a component
-      if (['.tsx', '.jsx'].includes(ext)) {
-        // Identify as component if in components/ dir or ends with .client.tsx
-        if (relativePath.includes('components/') || 
-            basename.endsWith('.client') ||
-            relativePath.includes('/ui/')) {
-          components.push(relativePath.replace(/\\/g, '/'));
-        }
+      addRouteFile(routes, joinRoutePath(segments), dir, entry);
+    }
+
+    return { routes: Array.from(routes.values()), actions: [] };
+  },
+};
+
+// Remix / React Router flat routes: app/routes/profile.$id.tsx or
+// app/routes/profile.$id/route.tsx. "_index" is the index route, leading "_"
+// marks pathless layouts, "$param" is a dynamic segment and "$" a splat.
+function remixRoutePath(name: string): string {
+  const segments = name
+    .split(/\.(?![^[]*\])/)
+    .map(segment => {
+      if (segment.startsWith('_')) return '';
+      const optional = segment.match(/^\((.*)\)$/);
+      const base = (optional ? optional[1] : segment).replace(/_$/, '').replace(/\[(.*?)\]/g, '$1');
+      const param = base === '$' ? '*' : base.replace(/^\$/, ':');
+      return optional ? `${param}?` : param;
+    });
+  return joinRoutePath(segments);
+}
+
+const remixDetector: FrameworkDetector = {
+  roots: projectRoot => existingDirs(projectRoot, ['app/routes']),
+
+  scan(projectRoot, root, maxDepth) {
+    const routes = new Map<string, RouteInfo>();
+    const actions: string[] = [];
+    const appDir = path.posix.dirname(root);
+
+    for (const rootFile of ['root.tsx', 'root.jsx', 'root.ts', 'root.js']) {
+      if (fs.existsSync(path.join(projectRoot, appDir, rootFile))) {
+        addRouteFile(routes, '/', appDir, rootFile);
+      }
+    }
+
+    for (const file of walkFiles(projectRoot, root, maxDepth)) {
+      const entry = path.posix.basename(file);
+      const ext = path.posix.extname(entry);
+      if (!SCRIPT_EXTENSIONS.includes(ext)) continue;
+
+      // Folder routes are named by their directory: routes/profile.$id/route.tsx
+      const dir = path.posix.dirname(file);
+      const name = dir === root ? path.posix.basename(entry, ext) : path.posix.relative(root, dir).split('/')[0];
+      if (dir !== root && !/^(route|index)$/.test(path.posix.basename(entry, ext))) continue;
+
+      addRouteFile(routes, remixRoutePath(name), dir, entry);
+      if (REMIX_ACTION_EXPORT.test(readText(path.join(projectRoot, file)))) {
+        actions.push(file);
       }
     }
+
+    return { routes: Array.from(routes.values()), actions };
+  },
+};
+
+// SvelteKit: src/routes/**/+page.svelte, +layout.svelte, +server.ts, ...
+const sveltekitDetector: FrameworkDetector = {
+  roots: projectRoot => existingDirs(projectRoot, ['src/routes']),
+
+  scan(projectRoot, root, maxDepth) {
+    const routes = new Map<string, RouteInfo>();
+    const actions: string[] = [];
+
+    for (const file of walkFiles(projectRoot, root, maxDepth)) {
+      const entry = path.posix.basename(file);
+      if (!entry.startsWith('+')) continue;
+
+      const dir = path.posix.dirname(file);
+      const segments = path.posix.relative(root, dir).split('/').map(s => (/^\(.*\)$/.test(s) ? '' : s));
+      addRouteFile(routes, joinRoutePath(segments), dir, entry);
+
+      if (/^\+page\.server\.(ts|js)$/.test(entry) && SVELTEKIT_ACTIONS_EXPORT.test(readText(path.join(projectRoot, file)))) {
+        actions.push(file);
+      }
+    }
+
+    return { routes: Array.from(routes.values()), actions };
+  },
+};
+
+// Fallback: every directory with source files becomes an entry keyed by its path
+const genericDetector: FrameworkDetector = {
+  roots: projectRoot => {
+    const roots = existingDirs(projectRoot, ['src']);
+    return roots.length > 0 ? roots : ['.'];
+  },
+
+  scan(projectRoot, root, maxDepth) {
+    const routes = new Map<string, RouteInfo>();
+
+    for (const file of walkFiles(projectRoot, root, maxDepth)) {
+      const entry = path.posix.basename(file);
+      if (!SOURCE_EXTENSIONS.includes(path.posix.extname(entry)) || isComponent(file)) continue;
+
+      const dir = path.posix.dirname(file);
+      addRouteFile(routes, joinRoutePath(path.posix.relative(root, dir).split('/')), dir, entry);
+    }
+
+    return { routes: Array.from(routes.values()), actions: [] };
+  },
+};
+
+const DETECTORS: Record<Framework, FrameworkDetector> = {
+  'next-app': nextAppDetector,
+  'next-pages': nextPagesDetector,
+  remix: remixDetector,
+  sveltekit: sveltekitDetector,
+  generic: genericDetector,
+};
+
+function isFramework(value: string): value is Framework {
+  return Object.hasOwn(DETECTORS, value);
+}
+
+function isComponent(relativePath: string): boolean {
+  const ext = path.posix.extname(relativePath);
+  if (!COMPONENT_EXTENSIONS.includes(ext)) {
+    return false;
   }
 
-  return { routes, components, actions };
+  // In a components/ or ui/ dir, a .client.tsx file, or a Svelte component in src/lib
+  const basename = path.posix.basename(relativePath, ext);
+  return relativePath.includes('components/') ||
+    relativePath.startsWith('ui/') ||
+    relativePath.includes('/ui/') ||
+    basename.endsWith('.client') ||
+    (ext === '.svelte' && relativePath.includes('lib/'));
 }
 
-function scanCodebase(projectRoot: string, maxDepth = 10): CodebaseMap {
-  const appDir = path.join(projectRoot, 'app');
+function isActionFile(projectRoot: string, relativePath: string): boolean {
+  if (!SCRIPT_EXTENSIONS.includes(path.posix.extname(relativePath))) {
+    return false;
+  }
+  return ACTION_FILES.includes(path.posix.basename(relativePath)) ||
+    /(^|\/)actions\//.test(relativePath) ||
+    USE_SERVER_DIRECTIVE.test(readText(path.join(projectRoot, relativePath)));
+}
 
-  if (!fs.existsSync(appDir)) {
-    console.error('Error: app/ directory not found. Are you in a Next.js App Router project?');
-    process.exit(1);
+// The TypeScript compiler is resolved from the consumer project; without it the
+// map is generated without export symbols
+function loadTypeScript(projectRoot: string): typeof TypeScript | null {
+  try {
+    return createRequire(path.join(projectRoot, 'package.json'))('typescript');
+  } catch {
+    return null;
+  }
+}
+
+function hasDirective(ts: typeof TypeScript, statements: readonly TypeScript.Statement[], directive: string): boolean {
+  for (const statement of statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) {
+      return false;
+    }
+    if (statement.expression.text === directive) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// The function behind a declaration, including wrappers like forwardRef(() => ...) and memo(...)
+function functionLike(ts: typeof TypeScript, node: TypeScript.Node): TypeScript.SignatureDeclaration | undefined {
+  if (ts.isFunctionDeclaration(node) || ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+    return node;
+  }
+  if (ts.isCallExpression(node) && node.arguments.length > 0) {
+    return functionLike(ts, node.arguments[0]);
+  }
+  return undefined;
+}
+
+function classifyExport(
+  ts: typeof TypeScript,
+  name: string,
+  node: TypeScript.Node | undefined,
+  file: { useServer: boolean; jsx: boolean },
+): ExportKind {
+  if (HTTP_METHODS.includes(name) || name === 'loader') return 'handler';
+  if (METADATA_EXPORTS.includes(name)) return 'metadata';
+  if (name === 'action' || name === 'actions') return 'action';
+
+  const fn = node ? functionLike(ts, node) : undefined;
+  const body = fn && 'body' in fn ? fn.body : undefined;
+  if (fn && (file.useServer || (body && ts.isBlock(body) && hasDirective(ts, body.statements, 'use server')))) {
+    return 'action';
+  }
+  if ((fn || (node && ts.isClassDeclaration(node))) && file.jsx && /^[A-Z]/.test(name)) {
+    return 'component';
+  }
+  return fn ? 'function' : 'value';
+}
+
+// Compiler options from tsconfig.json (or jsconfig.json), including `paths` aliases like "@/*"
+function readCompilerOptions(ts: typeof TypeScript, projectRoot: string): TypeScript.CompilerOptions {
+  const configPath = ['tsconfig.json', 'jsconfig.json']
+    .map(name => path.join(projectRoot, name))
+    .find(file => fs.existsSync(file));
+
+  let options: TypeScript.CompilerOptions = {};
+  if (configPath) {
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      console.error(`Warning: could not read ${path.basename(configPath)}; resolving relative imports only.`);
+    } else {
+      options = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath)).options;
+    }
   }
 
-  console.error('Scanning codebase...');
-  const results = scanDirectory(projectRoot, appDir, 0, maxDepth);
+  return {
+    ...options,
+    allowJs: true,
+    moduleResolution: options.moduleResolution ?? ts.ModuleResolutionKind.Node10,
+  };
+}
+
+// Resolve every import of the project's script files to a project file
+function buildDependencyGraph(ts: typeof TypeScript, projectRoot: string, files: string[]): DependencyGraph {
+  const options = readCompilerOptions(ts, projectRoot);
+  const cache = ts.createModuleResolutionCache(projectRoot, name => name, options);
+  const scriptFiles = new Set(files.filter(file => SCRIPT_EXTENSIONS.includes(path.posix.extname(file)) && !file.endsWith('.d.ts')));
+  const edges = new Map<string, Set<string>>();
 
-  // Convert routes map to array
-  const routesArray: RouteInfo[] = Array.from(results.routes.values()).sort(
-    (a, b) => a.path.localeCompare(b.path)
+  // Resolved paths may be real paths, which differ from projectRoot if it's behind a symlink
+  const realRoot = fs.realpathSync(projectRoot);
+  const relativeToRoot = (file: string) => {
+    const relative = path.relative(projectRoot, file);
+    return toPosix(relative.startsWith('..') ? path.relative(realRoot, file) : relative);
+  };
+
+  for (const file of scriptFiles) {
+    const containingFile = path.join(projectRoot, file);
+    const { importedFiles } = ts.preProcessFile(readText(containingFile), true, true);
+    const targets = new Set<string>();
+
+    for (const { fileName } of importedFiles) {
+      const { resolvedModule } = ts.resolveModuleName(fileName, containingFile, options, ts.sys, cache);
+      if (!resolvedModule || resolvedModule.isExternalLibraryImport) continue;
+
+      const target = relativeToRoot(resolvedModule.resolvedFileName);
+      if (scriptFiles.has(target) && target !== file) {
+        targets.add(target);
+      }
+    }
+
+    if (targets.size > 0) {
+      edges.set(file, targets);
+    }
+  }
+
+  const graphFiles = Array.from(new Set([...edges.keys(), ...Array.from(edges.values()).flatMap(t => Array.from(t))])).sort();
+  const index = new Map(graphFiles.map((file, i) => [file, i]));
+
+  return {
+    files: graphFiles,
+    imports: graphFiles.map(file => Array.from(edges.get(file) || []).map(target => index.get(target)!).sort((a, b) => a - b)),
+  };
+}
+
+// Exported symbols of a script file; type-only exports are skipped
+function extractExports(ts: typeof TypeScript, projectRoot: string, relativePath: string): ExportSymbol[] {
+  const ext = path.posix.extname(relativePath);
+  if (!SCRIPT_EXTENSIONS.includes(ext)) {
+    return [];
+  }
+
+  const jsx = ext === '.tsx' || ext === '.jsx';
+  const source = ts.createSourceFile(
+    relativePath,
+    readText(path.join(projectRoot, relativePath)),
+    ts.ScriptTarget.Latest,
+    true,
+    jsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS,
   );
+  const file = { useServer: hasDirective(ts, source.statements, 'use server'), jsx };
+
+  // Top-level declarations, for `export { name }` and `export default name`
+  const locals = new Map<string, TypeScript.Node>();
+  for (const statement of source.statements) {
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+      locals.set(statement.name.text, statement);
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(d => {
+        if (ts.isIdentifier(d.name) && d.initializer) locals.set(d.name.text, d.initializer);
+      });
+    }
+  }
+
+  const symbols = new Map<string, ExportKind>();
+  const add = (name: string, node?: TypeScript.Node) => symbols.set(name, classifyExport(ts, name, node, file));
+
+  for (const statement of source.statements) {
+    const modifiers = ts.canHaveModifiers(statement) ? ts.getModifiers(statement) : undefined;
+    const exported = modifiers?.some(m => m.kind === ts.SyntaxKind.ExportKeyword) ?? false;
+
+    if ((ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && exported) {
+      add(statement.name?.text ?? 'default', statement);
+    } else if (ts.isVariableStatement(statement) && exported) {
+      statement.declarationList.declarations.forEach(d => {
+        if (ts.isIdentifier(d.name)) add(d.name.text, d.initializer);
+      });
+    } else if (ts.isEnumDeclaration(statement) && exported) {
+      add(statement.name.text);
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const target = ts.isIdentifier(statement.expression) ? statement.expression.text : undefined;
+      add(target ?? 'default', target ? locals.get(target) : statement.expression);
+    } else if (
+      ts.isExportDeclaration(statement) &&
+      !statement.isTypeOnly &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      statement.exportClause.elements
+        .filter(element => !element.isTypeOnly)
+        .forEach(element => add(element.name.text, locals.get((element.propertyName ?? element.name).text)));
+    }
+  }
+
+  return Array.from(symbols, ([name, kind]) => ({ name, kind }));
+}
+
+function readDependencies(projectRoot: string): Record<string, string> {
+  try {
+    const pkg = JSON.parse(readText(path.join(projectRoot, 'package.json')));
+    return { ...pkg.dependencies, ...pkg.devDependencies };
+  } catch {
+    return {};
+  }
+}
+
+// Pick frameworks from package.json; Next.js projects may use both routers
+function detectFrameworks(projectRoot: string): Framework[] {
+  const deps = readDependencies(projectRoot);
+  const names = Object.keys(deps);
+
+  if (deps['@sveltejs/kit']) {
+    return ['sveltekit'];
+  }
+  if (names.some(name => name.startsWith('@remix-run/')) || deps['@react-router/dev']) {
+    return ['remix'];
+  }
+  if (deps.next) {
+    const routers = (['next-app', 'next-pages'] as const).filter(f => DETECTORS[f].roots(projectRoot).length > 0);
+    if (routers.length > 0) {
+      return routers;
+    }
+  }
+  return ['generic'];
+}
+
+function scanCodebase(projectRoot: string, frameworks?: Framework[], maxDepth = 10): CodebaseMap {
+  const selected = frameworks && frameworks.length > 0 ? frameworks : detectFrameworks(projectRoot);
+  const routes: RouteInfo[] = [];
+  const actions = new Set<string>();
+
+  console.error(`Scanning codebase (${selected.join(', ')})...`);
+
+  for (const framework of selected) {
+    const detector = DETECTORS[framework];
+    const roots = detector.roots(projectRoot);
+    if (roots.length === 0) {
+      console.error(`Warning: no route directory found for ${framework}; skipping.`);
+      continue;
+    }
+
+    for (const root of roots) {
+      const result = detector.scan(projectRoot, root, maxDepth);
+      routes.push(...result.routes);
+      result.actions.forEach(action => actions.add(action));
+    }
+  }
+
+  // Components and action files live anywhere in the project
+  const allFiles = walkFiles(projectRoot, '.', maxDepth);
+  const components = allFiles.filter(isComponent);
+  allFiles.filter(file => isActionFile(projectRoot, file)).forEach(action => actions.add(action));
+
+  routes.sort((a, b) => a.path.localeCompare(b.path) || a.dir.localeCompare(b.dir));
+
+  // Exported symbols let the analyzer match tickets to specific functions
+  let exports: Record<string, ExportSymbol[]> | undefined;
+  let graph: DependencyGraph | undefined;
+  const ts = loadTypeScript(projectRoot);
+  if (ts) {
+    const fileExports: Record<string, ExportSymbol[]> = {};
+    const scannedFiles = new Set([
+      ...routes.flatMap(route => route.files.map(file => path.posix.join(route.dir, file))),
+      ...components,
+      ...actions,
+    ]);
+
+    for (const file of Array.from(scannedFiles).sort()) {
+      const symbols = extractExports(ts, projectRoot, file);
+      if (symbols.length > 0) {
+        fileExports[file] = symbols;
+      }
+    }
+
+    for (const route of routes) {
+      const names = route.files.flatMap(file => (fileExports[path.posix.join(route.dir, file)] || []).map(s => s.name));
+      if (names.length > 0) {
+        route.exports = Array.from(new Set(names));
+      }
+    }
+    exports = fileExports;
+
+    // Import edges let the analyzer find every file that depends on a changed one
+    graph = buildDependencyGraph(ts, projectRoot, allFiles);
+    console.error(`Resolved ${graph.imports.reduce((sum, targets) => sum + targets.length, 0)} imports between ${graph.files.length} files`);
+  } else {
+    console.error('Warning: typescript is not installed in this project; skipping export symbols and the import graph.');
+  }
 
-  console.error(`Found ${routesArray.length} routes`);
-  console.error(`Found ${results.components.length} components`);
-  console.error(`Found ${results.actions.length} server actions`);
+  console.error(`Found ${routes.length} routes`);
+  console.error(`Found ${components.length} components`);
+  console.error(`Found ${actions.size} server actions`);
 
   return {
-    routes: routesArray,
-    components: results.components.sort(),
-    actions: results.actions.sort(),
+    framework: selected.join('+'),
+    routes,
+    components: components.sort(),
+    actions: Array.from(actions).sort(),
+    exports,
+    graph,
     scannedAt: new Date().toISOString(),
   };
 }
 
+// ---- Embedding index ----
+
+interface IndexChunk {
+  file: string;
+  kind: 'summary' | 'code';
+  startLine?: number;
+  vector: number[];
+}
+
+interface CodebaseIndex {
+  version: 1;
+  embeddings: string; // "hashing" or "provider:model"
+  dimensions: number;
+  idf?: number[];
+  chunks: IndexChunk[];
+  builtAt: string;
+}
+
+const DEFAULT_HASHING_DIMENSIONS = 256;
+const DEFAULT_REMOTE_MODELS: Record<string, string> = {
+  'openai': 'text-embedding-3-small',
+  'openai-compatible': 'nomic-embed-text',
+};
+const INDEX_CHUNK_LINES = 60;
+const MAX_CODE_CHUNKS_PER_FILE = 3;
+const MAX_INDEXED_FILE_BYTES = 200_000;
+const EMBEDDING_BATCH_SIZE = 96;
+
+function roundVector(vector: number[]): number[] {
+  return vector.map(v => Math.round(v * 10000) / 10000);
+}
+
+// Hashing embeddings: TF-IDF weighted feature hashing. Must match src/retrieval/hashing.ts,
+// which embeds ticket queries against this index on the server.
+function hashingTokens(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2);
+}
+
+function fnv1a(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashingCounts(text: string, dimensions: number): Map<number, number> {
+  const counts = new Map<number, number>();
+  for (const token of hashingTokens(text)) {
+    const bucket = fnv1a(token) % dimensions;
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  }
+  return counts;
+}
+
+function hashingVector(counts: Map<number, number>, dimensions: number, idf: number[]): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, bucket) => {
+    vector[bucket] = (1 + Math.log(count)) * idf[bucket];
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+// Leading block comment or run of line comments, usually a description of the file
+function headerComment(source: string): string {
+  const match = source.match(/^\s*(\/\*[\s\S]*?\*\/|(?:\/\/[^\n]*\n\s*)+)/);
+  return match ? match[1].replace(/^\s*(\/\*+|\*\/|\*|\/\/)/gm, '').trim() : '';
+}
+
+// A summary chunk per file (path, exports, header comment) plus its first source slices
+function chunkSourceFiles(
+  projectRoot: string,
+  files: string[],
+  codebaseMap: CodebaseMap,
+): Array<Omit<IndexChunk, 'vector'> & { text: string }> {
+  const chunks: Array<Omit<IndexChunk, 'vector'> & { text: string }> = [];
+
+  for (const file of files) {
+    const source = readText(path.join(projectRoot, file));
+    const symbols = (codebaseMap.exports?.[file] || []).map(s => s.name).join(' ');
+    chunks.push({ file, kind: 'summary', text: `${file}\n${symbols}\n${headerComment(source)}` });
+
+    const lines = source.split('\n');
+    for (let i = 0; i < Math.min(lines.length, INDEX_CHUNK_LINES * MAX_CODE_CHUNKS_PER_FILE); i += INDEX_CHUNK_LINES) {
+      const text = lines.slice(i, i + INDEX_CHUNK_LINES).join('\n');
+      if (text.trim()) {
+        chunks.push({ file, kind: 'code', startLine: i + 1, text: `${file}\n${text}` });
+      }
+    }
+  }
+
+  return chunks;
+}
+
+// OpenAI or any OpenAI-compatible /embeddings endpoint
+async function embedRemote(provider: string, model: string, texts: string[]): Promise<number[][]> {
+  const baseUrl = provider === 'openai'
+    ? process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1'
+    : process.env.OPENAI_COMPATIBLE_BASE_URL || 'http://localhost:11434/v1';
+  const apiKey = provider === 'openai' ? process.env.OPENAI_API_KEY : process.env.OPENAI_COMPATIBLE_API_KEY;
+  if (provider === 'openai' && !apiKey) {
+    throw new Error('OPENAI_API_KEY is required for openai embeddings');
+  }
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const { data } = await response.json() as { data: Array<{ index: number; embedding: number[] }> };
+    vectors.push(...data.sort((a, b) => a.index - b.index).map(d => d.embedding));
+    console.error(`Embedded ${Math.min(i + EMBEDDING_BATCH_SIZE, texts.length)}/${texts.length} chunks`);
+  }
+  return vectors;
+}
+
+async function buildCodebaseIndex(
+  projectRoot: string,
+  codebaseMap: CodebaseMap,
+  embeddings = 'hashing',
+  dimensions = DEFAULT_HASHING_DIMENSIONS,
+  maxDepth = 10,
+): Promise<CodebaseIndex> {
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`dimensions must be a positive integer, got ${dimensions}`);
+  }
+  const files = walkFiles(projectRoot, '.', maxDepth).filter(file =>
+    SOURCE_EXTENSIONS.includes(path.posix.extname(file)) &&
+    !file.endsWith('.d.ts') &&
+    fs.statSync(path.join(projectRoot, file)).size <= MAX_INDEXED_FILE_BYTES);
+  const chunks = chunkSourceFiles(projectRoot, files, codebaseMap);
+
+  console.error(`Indexing ${chunks.length} chunks from ${files.length} files (${embeddings})...`);
+
+  if (embeddings === 'hashing') {
+    const counts = chunks.map(chunk => hashingCounts(chunk.text, dimensions));
+    const documentFrequency = new Array<number>(dimensions).fill(0);
+    counts.forEach(c => c.forEach((_count, bucket) => documentFrequency[bucket]++));
+    const idf = roundVector(documentFrequency.map(df => Math.log((chunks.length + 1) / (df + 1)) + 1));
+
+    return {
+      version: 1,
+      embeddings,
+      dimensions,
+      idf,
+      chunks: chunks.map(({ text: _text, ...chunk }, i) => ({ ...chunk, vector: roundVector(hashingVector(counts[i], dimensions, idf)) })),
+      builtAt: new Date().toISOString(),
+    };
+  }
+
+  const [provider, model = DEFAULT_REMOTE_MODELS[provider]] = embeddings.split(/:(.*)/s);
+  if (!(provider in DEFAULT_REMOTE_MODELS)) {
+    throw new Error(`Unknown embedding provider "${provider}". Use hashing, ${Object.keys(DEFAULT_REMOTE_MODELS).join(', ')}`);
+  }
+
+  const vectors = await embedRemote(provider, model, chunks.map(chunk => chunk.text));
+  return {
+    version: 1,
+    embeddings: `${provider}:${model}`,
+    dimensions: vectors[0]?.length || 0,
+    chunks: chunks.map(({ text: _text, ...chunk }, i) => ({ ...chunk, vector: roundVector(vectors[i]) })),
+    builtAt: new Date().toISOString(),
+  };
+}
+
 // Main execution
-function main() {
+async function main() {
   const args = process.argv.slice(2);
-  const outputFile = args.includes('--output') 
-    ? args[args.indexOf('--output') + 1] 
+  const outputFile = args.includes('--output')
+    ? args[args.indexOf('--output') + 1]
+    : null;
+  const frameworkArg = args.includes('--framework')
+    ? args[args.indexOf('--framework') + 1]
     : null;
+  const embeddings = args.includes('--embeddings')
+    ? args[args.indexOf('--embeddings') + 1]
+    : args.includes('--index') ? 'hashing' : null;
+  const indexOutput = args.includes('--index-output')
+    ? args[args.indexOf('--index-output') + 1]
+    : path.join(outputFile ? path.dirname(outputFile) : '.', 'codebase-index.json');
+  const dimensions = args.includes('--dimensions')
+    ? Number(args[args.indexOf('--dimensions') + 1])
+    : DEFAULT_HASHING_DIMENSIONS;
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    console.error(`\n❌ Error: --dimensions must be a positive integer, got "${args[args.indexOf('--dimensions') + 1]}"\n`);
+    process.exit(1);
+  }
+
+  // --framework accepts one framework or a comma-separated list
+  let frameworks: Framework[] | undefined;
+  if (frameworkArg) {
+    const requested = frameworkArg.split(',').map(f => f.trim());
+    const unknown = requested.filter(f => !isFramework(f));
+    if (unknown.length > 0) {
+      console.error(`Error: unknown framework "${unknown.join(', ')}". Use one of: ${Object.keys(DETECTORS).join(', ')}`);
+      process.exit(1);
+    }
+    frameworks = requested as Framework[];
+  }
 
   const projectRoot = process.cwd();
-  const codebaseMap = scanCodebase(projectRoot);
+  const codebaseMap = scanCodebase(projectRoot, frameworks);
 
   const json = JSON.stringify(codebaseMap, null, 2);
 
@@ -205,11 +870,22 @@ function main() {
     // Output to stdout for piping
     console.log(json);
   }
+
+  // Optional embedding index, stored next to the codebase map
+  if (embeddings) {
+    const index = await buildCodebaseIndex(projectRoot, codebaseMap, embeddings, dimensions);
+    fs.writeFileSync(indexOutput, JSON.stringify(index));
+    console.error(`Codebase index written to ${indexOutput}`);
+  }
 }
 
 // Run if executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
+  main().catch(error => {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
 }
 
-export { scanCodebase };
+export { scanCodebase, detectFrameworks, buildCodebaseIndex };
+export type { Framework, ExportSymbol, DependencyGraph, CodebaseIndex };
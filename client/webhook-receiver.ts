@@ -4,35 +4,179 @@
  * Webhook Receiver for Sprint Pilot
  * 
  * Local HTTP server that receives sprint data from the remote Sprint Pilot service
- * and writes it to .ai/sprint/YYYY-MM-DD-sprint.md
+ * and writes it to .ai/sprint/YYYY-MM-DD-sprint.md, one file per ticket under
+ * .ai/sprint/YYYY-MM-DD/tickets/ with an index.md, plus any extra formats
+ * (.json, .html, .csv and .cursor/rules/sprint/*.mdc) requested in the sync
  * 
  * Usage:
  *   bun run webhook-receiver.ts
  *   bun run webhook-receiver.ts --port 3001
  *   bun run webhook-receiver.ts --port 3001 --secret your-webhook-secret
+ *   bun run webhook-receiver.ts --secret key-2:new-secret --secret key-1:old-secret --no-legacy
+ *   bun run webhook-receiver.ts --overwrite
  */
 
 import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
-import { createHmac } from 'crypto';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+
+// The parts of an analyzed ticket the receiver reads. This script runs in consumer
+// projects without the server's types, so everything is optional.
+interface PayloadTicket {
+  ticket?: {
+    id?: string;
+    name?: string;
+    description?: string | null;
+    url?: string;
+    status?: { status?: string };
+    priority?: { priority?: string } | null;
+    assignees?: { username?: string }[];
+    tags?: { name?: string }[];
+  };
+  analysis?: {
+    qualityScore?: number;
+    qualityGaps?: string[];
+    complexityTag?: string;
+    suggestedApproach?: string;
+    affectedFiles?: string[];
+    dependentFiles?: string[];
+    hallucinatedFiles?: string[];
+    estimate?: { points?: number; source?: string };
+  };
+}
 
 interface WebhookPayload {
   sprintMarkdown: string;
-  tickets: any[];
+  tickets: PayloadTicket[];
   metadata: {
     syncTimestamp: string;
     ticketCount: number;
     listId: string;
   };
+  artifacts?: {
+    json?: unknown;
+    html?: string;
+    csv?: string;
+    cursorRules?: { taskId: string; filename: string; content: string }[];
+  };
+  changes?: {
+    previousSyncTimestamp: string;
+    added: unknown[];
+    closed: unknown[];
+    statusChanges: unknown[];
+    priorityChanges: unknown[];
+    qualityChanges: unknown[];
+  };
   signature?: string;
 }
 
-function verifySignature(payload: string, signature: string, secret: string): boolean {
-  const hmac = createHmac('sha256', secret);
-  hmac.update(payload);
-  const expectedSignature = `sha256=${hmac.digest('hex')}`;
-  return signature === expectedSignature;
+// A --secret value; "<keyId>:<secret>" only matches signatures made with that key id
+interface SigningSecret {
+  keyId?: string;
+  secret: string;
+}
+
+interface VerifyOptions {
+  secrets: SigningSecret[];
+  toleranceSeconds: number; // How far X-Sprint-Pilot-Timestamp may be from now
+  allowLegacy: boolean; // Accept the body-only X-Sprint-Pilot-Signature (no replay protection)
+}
+
+type Verification = { ok: true; scheme: 'v1' | 'legacy' | 'none' } | { ok: false; error: string };
+
+function parseSecret(value: string): SigningSecret {
+  const match = /^([A-Za-z0-9._-]+):(.+)$/.exec(value);
+  return match ? { keyId: match[1], secret: match[2] } : { secret: value };
+}
+
+function hmacHex(secret: string, content: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function headerValue(req: http.IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// "v1=<keyId>:<hex>, v1=<keyId>:<hex>"; entries of other versions are ignored
+function parseSignatures(header: string): { keyId: string; signature: string }[] {
+  return header.split(',').flatMap(entry => {
+    const match = /^\s*v1=([A-Za-z0-9._-]+):([0-9a-f]+)\s*$/i.exec(entry);
+    return match ? [{ keyId: match[1], signature: match[2].toLowerCase() }] : [];
+  });
+}
+
+function verifyRequest(req: http.IncomingMessage, body: string, options: VerifyOptions): Verification {
+  if (options.secrets.length === 0) return { ok: true, scheme: 'none' };
+
+  const signatures = headerValue(req, 'x-sprint-pilot-signatures');
+  if (signatures) {
+    const timestamp = Number(headerValue(req, 'x-sprint-pilot-timestamp'));
+    const deliveryId = headerValue(req, 'x-sprint-pilot-delivery');
+    if (!Number.isInteger(timestamp) || !deliveryId) {
+      return { ok: false, error: 'Missing timestamp or delivery id' };
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > options.toleranceSeconds) {
+      return { ok: false, error: 'Timestamp outside the tolerance window' };
+    }
+
+    const signed = `${timestamp}.${deliveryId}.${body}`;
+    let valid = false;
+    // Check every pair so timing doesn't reveal which key matched
+    for (const { keyId, signature } of parseSignatures(signatures)) {
+      for (const secret of options.secrets) {
+        if (secret.keyId && secret.keyId !== keyId) continue;
+        if (safeEqual(signature, hmacHex(secret.secret, signed))) valid = true;
+      }
+    }
+    return valid ? { ok: true, scheme: 'v1' } : { ok: false, error: 'Invalid signature' };
+  }
+
+  const legacy = headerValue(req, 'x-sprint-pilot-signature');
+  if (legacy && !options.allowLegacy) {
+    return { ok: false, error: 'Body-only signatures are not accepted; a v1 signature is required' };
+  }
+  if (legacy) {
+    let valid = false;
+    for (const secret of options.secrets) {
+      if (safeEqual(legacy, `sha256=${hmacHex(secret.secret, body)}`)) valid = true;
+    }
+    return valid ? { ok: true, scheme: 'legacy' } : { ok: false, error: 'Invalid signature' };
+  }
+  return { ok: false, error: 'Missing signature header' };
+}
+
+// Legacy signatures carry no timestamp, so a signed body is remembered this long to
+// refuse it being replayed with its v1 headers stripped
+const LEGACY_REPLAY_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Delivery ids seen within the tolerance window; anything older is refused by its timestamp anyway
+function createDeliveryCache(ttlMs: number, maxEntries = 10000) {
+  const seen = new Map<string, number>();
+  return {
+    has(id: string): boolean {
+      const expires = seen.get(id);
+      return expires !== undefined && expires > Date.now();
+    },
+    add(id: string): void {
+      const now = Date.now();
+      for (const [key, expires] of seen) {
+        if (expires <= now || seen.size >= maxEntries) seen.delete(key);
+        else break; // Insertion order is expiry order
+      }
+      seen.set(id, now + ttlMs);
+    },
+    delete(id: string): void {
+      seen.delete(id);
+    },
+  };
 }
 
 function ensureDirectoryExists(dirPath: string): void {
@@ -42,26 +186,219 @@ function ensureDirectoryExists(dirPath: string): void {
   }
 }
 
-function writeSprintFile(markdown: string, projectRoot: string): string {
+interface SprintRun {
+  name: string; // "2026-02-13", or "2026-02-13-143000" for a later sync the same day
+  sprintDir: string; // .ai/sprint
+  runDir: string; // .ai/sprint/<name>
+}
+
+// A second sync on the same day gets a time suffix unless --overwrite is set
+function startSprintRun(projectRoot: string, overwrite: boolean): SprintRun {
   const sprintDir = path.join(projectRoot, '.ai', 'sprint');
   ensureDirectoryExists(sprintDir);
 
-  const date = new Date().toISOString().split('T')[0];
-  const filename = `${date}-sprint.md`;
-  const filepath = path.join(sprintDir, filename);
+  const now = new Date().toISOString();
+  const date = now.split('T')[0];
+  let name = date;
+  if (fs.existsSync(path.join(sprintDir, `${date}-sprint.md`))) {
+    if (overwrite) {
+      fs.rmSync(path.join(sprintDir, date), { recursive: true, force: true });
+    } else {
+      const time = `${date}-${now.slice(11, 19).replace(/:/g, '')}`;
+      name = time;
+      for (let n = 2; fs.existsSync(path.join(sprintDir, `${name}-sprint.md`)); n++) {
+        name = `${time}-${n}`; // Several syncs in the same second
+      }
+    }
+  }
+
+  const runDir = path.join(sprintDir, name);
+  ensureDirectoryExists(path.join(runDir, 'tickets'));
+  return { name, sprintDir, runDir };
+}
 
-  fs.writeFileSync(filepath, markdown, 'utf-8');
+function writeSprintFile(content: string, run: SprintRun, extension = 'md'): string {
+  const filepath = path.join(run.sprintDir, `${run.name}-sprint.${extension}`);
+  fs.writeFileSync(filepath, content, 'utf-8');
   return filepath;
 }
 
-function createServer(_port: number, secret?: string): http.Server {
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '') || 'ticket';
+}
+
+function formatTicketFile(item: PayloadTicket, position: number): string {
+  const t = item.ticket || {};
+  const a = item.analysis || {};
+  const lines: string[] = [];
+
+  lines.push(`# ${position}. [${String(a.complexityTag || 'ticket').toUpperCase()}] ${t.name}`);
+  lines.push('');
+  lines.push(`- **ClickUp ID**: ${t.id}`);
+  if (t.status?.status) lines.push(`- **Status**: ${t.status.status}`);
+  if (t.priority?.priority) lines.push(`- **Priority**: ${t.priority.priority}`);
+  if (t.assignees?.length) lines.push(`- **Assignees**: ${t.assignees.map(u => u.username).join(', ')}`);
+  if (t.tags?.length) lines.push(`- **Tags**: ${t.tags.map(tag => tag.name).join(', ')}`);
+  if (a.estimate) lines.push(`- **Estimate**: ${a.estimate.points} points (${a.estimate.source || 'llm'})`);
+  if (t.url && /^https?:\/\//i.test(t.url)) lines.push(`- **ClickUp**: ${t.url}`);
+  lines.push(`- **Agent**: ${a.complexityTag === 'fix' ? '/fix' : '/agent'}`);
+
+  lines.push('');
+  lines.push('## Quality');
+  lines.push('');
+  lines.push(`${a.qualityScore}/5`);
+  (a.qualityGaps || []).forEach(gap => lines.push(`- ${gap}`));
+
+  lines.push('');
+  lines.push('## Suggested approach');
+  lines.push('');
+  lines.push(a.suggestedApproach || '(none)');
+
+  lines.push('');
+  lines.push('## Affected files');
+  lines.push('');
+  if (a.affectedFiles?.length) {
+    a.affectedFiles.forEach(file => lines.push(`- \`${file}\``));
+  } else {
+    lines.push('(none identified)');
+  }
+  if (a.dependentFiles?.length) {
+    lines.push('');
+    lines.push(`Imported by ${a.dependentFiles.length} file(s):`);
+    a.dependentFiles.forEach(file => lines.push(`- \`${file}\``));
+  }
+  if (a.hallucinatedFiles?.length) {
+    lines.push('');
+    lines.push(`Unverified (not in codebase map): ${a.hallucinatedFiles.map(f => `\`${f}\``).join(', ')}`);
+  }
+
+  lines.push('');
+  lines.push('## Description');
+  lines.push('');
+  lines.push(t.description?.trim() || '(no description)');
+  lines.push('');
+  return lines.join('\n');
+}
+
+// One file per ticket plus an index, in sprint order
+function writeTicketFiles(payload: WebhookPayload, run: SprintRun): string[] {
+  const entries = payload.tickets.map((item, i) => {
+    const id = slugify(String(item.ticket?.id ?? i + 1));
+    const filename = `${id}-${slugify(String(item.ticket?.name ?? ''))}.md`;
+    fs.writeFileSync(path.join(run.runDir, 'tickets', filename), formatTicketFile(item, i + 1), 'utf-8');
+    return { item, filename };
+  });
+
+  const lines: string[] = [];
+  lines.push(`# Sprint ${run.name}`);
+  lines.push('');
+  lines.push(`Synced at ${payload.metadata.syncTimestamp} from list ${payload.metadata.listId}. Full sprint file: [../${run.name}-sprint.md](../${run.name}-sprint.md)`);
+  lines.push('');
+  lines.push('| # | Ticket | Type | Quality | Status |');
+  lines.push('|---|---|---|---|---|');
+  entries.forEach(({ item, filename }, i) => {
+    const name = String(item.ticket?.name ?? '').replace(/\|/g, '\\|');
+    lines.push(`| ${i + 1} | [${name}](tickets/${filename}) | ${item.analysis?.complexityTag ?? ''} | ${item.analysis?.qualityScore ?? ''}/5 | ${item.ticket?.status?.status ?? ''} |`);
+  });
+  lines.push('');
+
+  const indexPath = path.join(run.runDir, 'index.md');
+  fs.writeFileSync(indexPath, lines.join('\n'), 'utf-8');
+  return [indexPath, ...entries.map(e => path.join(run.runDir, 'tickets', e.filename))];
+}
+
+// Tickets and metadata as synced; pass the latest one back as the sync's `previous`
+// to get a "Changes since last sync" section
+function writeSprintData(payload: WebhookPayload, run: SprintRun): string {
+  const filepath = path.join(run.runDir, 'sprint-data.json');
+  fs.writeFileSync(filepath, `${JSON.stringify({ tickets: payload.tickets, metadata: payload.metadata }, null, 2)}\n`, 'utf-8');
+  return filepath;
+}
+
+// .ai/sprint/latest links to the newest run directory; LATEST names it for
+// tools (and filesystems) without symlinks
+function updateLatestPointer(run: SprintRun): void {
+  fs.writeFileSync(path.join(run.sprintDir, 'LATEST'), `${run.name}\n`, 'utf-8');
+
+  const link = path.join(run.sprintDir, 'latest');
+  try {
+    fs.rmSync(link, { force: true });
+    fs.symlinkSync(run.name, link, 'dir');
+  } catch (error) {
+    console.warn(`Could not link ${link}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Cursor rules for the current sprint replace the previous sprint's
+function writeCursorRules(rules: { filename: string; content: string }[], projectRoot: string): string[] {
+  const rulesDir = path.join(projectRoot, '.cursor', 'rules', 'sprint');
+  ensureDirectoryExists(rulesDir);
+
+  fs.readdirSync(rulesDir)
+    .filter(file => file.endsWith('.mdc'))
+    .forEach(file => fs.unlinkSync(path.join(rulesDir, file)));
+
+  return rules.map(rule => {
+    // Never let a payload pick a path outside the rules directory
+    const filename = path.basename(rule.filename).replace(/[^\w.-]/g, '-');
+    const filepath = path.join(rulesDir, filename.endsWith('.mdc') ? filename : `${filename}.mdc`);
+    fs.writeFileSync(filepath, rule.content, 'utf-8');
+    return filepath;
+  });
+}
+
+// Extra formats requested with the sync's `formats` option
+function writeArtifacts(artifacts: NonNullable<WebhookPayload['artifacts']>, run: SprintRun, projectRoot: string): string[] {
+  const written: string[] = [];
+  if (artifacts.json !== undefined) {
+    written.push(writeSprintFile(`${JSON.stringify(artifacts.json, null, 2)}\n`, run, 'json'));
+  }
+  if (typeof artifacts.html === 'string') {
+    written.push(writeSprintFile(artifacts.html, run, 'html'));
+  }
+  if (typeof artifacts.csv === 'string') {
+    written.push(writeSprintFile(artifacts.csv, run, 'csv'));
+  }
+  if (Array.isArray(artifacts.cursorRules)) {
+    written.push(...writeCursorRules(artifacts.cursorRules, projectRoot));
+  }
+  return written;
+}
+
+function createServer(
+  _port: number,
+  secrets: SigningSecret[] = [],
+  overwrite = false,
+  options: { toleranceSeconds?: number; allowLegacy?: boolean } = {},
+): http.Server {
   const projectRoot = process.cwd();
+  const verifyOptions: VerifyOptions = {
+    secrets,
+    toleranceSeconds: options.toleranceSeconds ?? 300,
+    allowLegacy: options.allowLegacy ?? true,
+  };
+  if (!Number.isFinite(verifyOptions.toleranceSeconds) || verifyOptions.toleranceSeconds <= 0) {
+    throw new Error(`toleranceSeconds must be a positive number, got ${verifyOptions.toleranceSeconds}`);
+  }
+  // Both sides of the window, since a timestamp may be ahead of this clock
+  const deliveries = createDeliveryCache(verifyOptions.toleranceSeconds * 2 * 1000);
+  // SHA-256 of every accepted signed body, checked for legacy signatures only
+  const signedBodies = createDeliveryCache(LEGACY_REPLAY_TTL_MS);
 
   return http.createServer((req, res) => {
     // Set CORS headers
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Sprint-Pilot-Signature');
+    res.setHeader(
+      'Access-Control-Allow-Headers',
+      'Content-Type, X-Sprint-Pilot-Signature, X-Sprint-Pilot-Signatures, X-Sprint-Pilot-Timestamp, X-Sprint-Pilot-Delivery',
+    );
 
     // Handle OPTIONS preflight
     if (req.method === 'OPTIONS') {
@@ -79,27 +416,40 @@ function createServer(_port: number, secret?: string): http.Server {
 
     // Parse request body
     let body = '';
+    req.setEncoding('utf8'); // Multi-byte characters split across chunks would break the signature
     req.on('data', chunk => {
       body += chunk.toString();
     });
 
     req.on('end', () => {
+      const deliveryId = headerValue(req, 'x-sprint-pilot-delivery');
+      const bodyHash = createHash('sha256').update(body).digest('hex');
       try {
-        // Verify signature if secret is configured
-        if (secret) {
-          const signature = req.headers['x-sprint-pilot-signature'] as string;
-          if (!signature) {
-            res.writeHead(401, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Missing signature header' }));
-            return;
-          }
-
-          if (!verifySignature(body, signature, secret)) {
-            res.writeHead(401, { 'Content-Type': 'application/json' });
-            res.end(JSON.stringify({ error: 'Invalid signature' }));
-            return;
-          }
+        // Verify signature if secrets are configured
+        const verification = verifyRequest(req, body, verifyOptions);
+        if (!verification.ok) {
+          console.warn(`Rejected webhook${deliveryId ? ` ${deliveryId}` : ''}: ${verification.error}`);
+          res.writeHead(401, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: verification.error }));
+          return;
+        }
+        if (verification.scheme === 'legacy') {
+          console.warn(
+            `Accepted a legacy body-only signature (body ${bodyHash.slice(0, 12)}); only bodies seen in the last 7 days ` +
+              'are recognised as replays. Start with --no-legacy for full replay protection once the server sends v1',
+          );
+        }
+
+        // Retries and replays of a processed delivery are acknowledged without writing again
+        const duplicate = (deliveryId && deliveries.has(deliveryId)) || (verification.scheme === 'legacy' && signedBodies.has(bodyHash));
+        if (duplicate) {
+          console.log(`Skipped duplicate delivery ${deliveryId || `with body ${bodyHash.slice(0, 12)}`}`);
+          res.writeHead(200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ success: true, duplicate: true }));
+          return;
         }
+        if (deliveryId) deliveries.add(deliveryId);
+        if (verification.scheme !== 'none') signedBodies.add(bodyHash);
 
         // Parse payload
         const payload: WebhookPayload = JSON.parse(body);
@@ -111,11 +461,26 @@ function createServer(_port: number, secret?: string): http.Server {
         }
 
         // Write sprint file
-        const filepath = writeSprintFile(payload.sprintMarkdown, projectRoot);
+        const run = startSprintRun(projectRoot, overwrite);
+        const filepath = writeSprintFile(payload.sprintMarkdown, run);
         const relativePath = path.relative(projectRoot, filepath);
+        const ticketPaths = writeTicketFiles(payload, run);
+        writeSprintData(payload, run);
+        const artifactPaths = payload.artifacts
+          ? writeArtifacts(payload.artifacts, run, projectRoot).map(file => path.relative(projectRoot, file))
+          : [];
+        updateLatestPointer(run);
 
         console.log(`\n✓ Sprint file written to: ${relativePath}`);
+        console.log(`  Ticket files: ${path.relative(projectRoot, run.runDir)}/ (index.md + ${ticketPaths.length - 1} tickets)`);
+        if (artifactPaths.length > 0) {
+          console.log(`  Also wrote: ${artifactPaths.join(', ')}`);
+        }
         console.log(`  Tickets: ${payload.metadata.ticketCount}`);
+        if (payload.changes) {
+          const { added, closed, statusChanges, priorityChanges, qualityChanges } = payload.changes;
+          console.log(`  Since ${payload.changes.previousSyncTimestamp}: ${added.length} new, ${closed.length} closed, ${statusChanges.length} status, ${priorityChanges.length} priority and ${qualityChanges.length} quality change(s)`);
+        }
         console.log(`  Synced at: ${payload.metadata.syncTimestamp}`);
 
         // Send success response
@@ -123,9 +488,14 @@ function createServer(_port: number, secret?: string): http.Server {
         res.end(JSON.stringify({
           success: true,
           filepath: relativePath,
+          index: path.relative(projectRoot, ticketPaths[0]),
+          artifacts: artifactPaths,
           ticketCount: payload.metadata.ticketCount,
         }));
       } catch (error) {
+        // Let the sender's retry through
+        if (deliveryId) deliveries.delete(deliveryId);
+        signedBodies.delete(bodyHash);
         console.error('Error processing webhook:', error);
         res.writeHead(500, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
@@ -148,7 +518,10 @@ function main() {
   const args = process.argv.slice(2);
   
   let port = 3001;
-  let secret: string | undefined;
+  const secrets: SigningSecret[] = [];
+  let overwrite = false;
+  let toleranceSeconds = 300;
+  let allowLegacy = true;
 
   // Parse arguments
   for (let i = 0; i < args.length; i++) {
@@ -156,8 +529,20 @@ function main() {
       port = parseInt(args[i + 1], 10);
       i++;
     } else if (args[i] === '--secret' && args[i + 1]) {
-      secret = args[i + 1];
+      secrets.push(parseSecret(args[i + 1]));
+      i++;
+    } else if (args[i] === '--tolerance' && args[i + 1]) {
+      // NaN would switch off both the timestamp window and the replay cache
+      toleranceSeconds = Number(args[i + 1]);
+      if (!Number.isFinite(toleranceSeconds) || toleranceSeconds <= 0) {
+        console.error(`\n❌ Error: --tolerance must be a positive number of seconds, got "${args[i + 1]}"\n`);
+        process.exit(1);
+      }
       i++;
+    } else if (args[i] === '--no-legacy') {
+      allowLegacy = false;
+    } else if (args[i] === '--overwrite') {
+      overwrite = true;
     } else if (args[i] === '--help' || args[i] === '-h') {
       console.log(`
 Sprint Pilot Webhook Receiver
@@ -167,27 +552,38 @@ Usage:
 
 Options:
   --port <number>     Port to listen on (default: 3001)
-  --secret <string>   Webhook secret for HMAC verification (optional)
+  --secret <string>   Webhook secret for HMAC verification (optional, repeatable).
+                      Use <keyId>:<secret> to match only that key id's signatures
+  --tolerance <secs>  Max age of a signed delivery's timestamp (default: 300)
+  --no-legacy         Refuse body-only signatures without timestamp or delivery id
+                      (accepted by default, with a warning, for older servers)
+  --overwrite         Replace an earlier sync from the same day instead of keeping it
   --help, -h          Show this help message
 
 Example:
   bun run webhook-receiver.ts --port 3001 --secret my-secret-key
+  bun run webhook-receiver.ts --secret key-2:new-secret --secret key-1:old-secret
 
 The receiver will write sprint files to .ai/sprint/YYYY-MM-DD-sprint.md
+(and .json/.html/.csv or .cursor/rules/sprint/*.mdc when the sync requests them),
+one file per ticket to .ai/sprint/YYYY-MM-DD/tickets/ with an index.md and
+the synced data (sprint-data.json), and
+point .ai/sprint/latest at the newest sync. Later syncs on the same day get a
+time suffix (YYYY-MM-DD-HHMMSS) unless --overwrite is given.
       `);
       process.exit(0);
     }
   }
 
-  const server = createServer(port, secret);
+  const server = createServer(port, secrets, overwrite, { toleranceSeconds, allowLegacy });
 
   server.listen(port, () => {
     console.log(`\n🚀 Sprint Pilot Webhook Receiver`);
     console.log(`   Listening on: http://localhost:${port}`);
     console.log(`   Project root: ${process.cwd()}`);
-    console.log(`   Sprint files: .ai/sprint/`);
-    if (secret) {
-      console.log(`   Security: HMAC signature verification enabled`);
+    console.log(`   Sprint files: .ai/sprint/ (${overwrite ? 'same-day syncs overwrite' : 'same-day syncs kept'})`);
+    if (secrets.length > 0) {
+      console.log(`   Security: HMAC signatures verified with ${secrets.length} secret(s), ${toleranceSeconds}s tolerance${allowLegacy ? ', legacy accepted' : ''}`);
     } else {
       console.log(`   Security: No signature verification (add --secret for HMAC)`);
     }
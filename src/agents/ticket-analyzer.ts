@@ -2,6 +2,8 @@ import { Agent } from '@mastra/core/agent';
 import { clickupSyncTool } from '../tools/clickup-sync.js';
 import { analyzeTicketTool } from '../tools/analyze-ticket.js';
 import { sprintFormatterTool } from '../tools/sprint-formatter.js';
+import { clickupWriteBackTool } from '../tools/clickup-write-back.js';
+import { resolveModel } from '../llm/index.js';
 
 const AGENT_INSTRUCTIONS = `You are a sprint planning assistant that helps developers organize and analyze their ClickUp tickets.
 
@@ -9,6 +11,7 @@ Your responsibilities:
 1. Fetch tasks from ClickUp using the clickup-sync tool
 2. Analyze each ticket for quality and map it to the provided codebase structure using the analyze-ticket tool
 3. Generate a prioritized sprint markdown file using the sprint-formatter tool
+4. Only when the user asks for it, post analyses back to ClickUp using the clickup-write-back tool
 
 When working with tickets:
 - Always analyze ALL tickets in the list
@@ -29,6 +32,8 @@ export const ticketAnalyzerAgent = new Agent({
     'clickup-sync': clickupSyncTool,
     'analyze-ticket': analyzeTicketTool,
     'sprint-formatter': sprintFormatterTool,
+    'clickup-write-back': clickupWriteBackTool,
   },
-  model: 'openai/gpt-4o',
+  // Resolved lazily so LLM_PROVIDER / LLM_AGENT_MODEL are read at call time, not import time
+  model: () => resolveModel('agent').model,
 });
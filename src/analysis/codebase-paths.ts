@@ -0,0 +1,45 @@
+import type { CodebaseMap, ExportSymbol, RouteInfo } from '../types/index.js';
+
+export type CodebaseEntryKind = 'route' | 'component' | 'action';
+
+export interface CodebaseEntry {
+  path: string;
+  kind: CodebaseEntryKind;
+  route?: string; // URL path for route files
+  exports?: ExportSymbol[];
+}
+
+// Route files are stored as basenames; join them with the route directory. Maps
+// without `dir` come from the App Router scanner ("/profile" + "page.tsx" → "app/profile/page.tsx")
+export function routeFilePath(route: Pick<RouteInfo, 'path' | 'dir'>, file: string): string {
+  if (route.dir !== undefined) {
+    return [route.dir, file].filter(part => part && part !== '.').join('/');
+  }
+  const dir = route.path === '/' ? '' : route.path.replace(/^\/+/, '');
+  return ['app', dir, file].filter(Boolean).join('/');
+}
+
+// Every file path referenced by a codebase map, tagged with its kind. A file listed
+// twice (e.g. a Remix route that exports an action) keeps its first kind.
+export function codebaseEntries(codebaseMap: CodebaseMap): CodebaseEntry[] {
+  const entries = new Map<string, CodebaseEntry>();
+  const add = (entry: CodebaseEntry) => {
+    if (!entries.has(entry.path)) entries.set(entry.path, { ...entry, exports: codebaseMap.exports?.[entry.path] });
+  };
+
+  for (const route of codebaseMap.routes) {
+    for (const file of route.files) {
+      add({ path: routeFilePath(route, file), kind: 'route', route: route.path });
+    }
+  }
+  codebaseMap.components.forEach(path => add({ path, kind: 'component' }));
+  codebaseMap.actions.forEach(path => add({ path, kind: 'action' }));
+
+  return Array.from(entries.values());
+}
+
+// File path with its exported symbols for prompts: "app/api/users/route.ts (GET, POST)"
+export function describeFile(codebaseMap: CodebaseMap, path: string): string {
+  const symbols = codebaseMap.exports?.[path];
+  return symbols && symbols.length > 0 ? `${path} (${symbols.map(s => s.name).join(', ')})` : path;
+}
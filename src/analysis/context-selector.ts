@@ -0,0 +1,152 @@
+import type { ClickUpTask, CodebaseMap } from '../types/index.js';
+import type { RetrievedFile } from '../retrieval/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { codebaseEntries, describeFile, type CodebaseEntry, type CodebaseEntryKind } from './codebase-paths.js';
+import { extractKeywords, stem, tokenize } from './keywords.js';
+
+// Picks the codebase map entries most relevant to a ticket (BM25 over paths and
+// exported symbol names) until a token budget is filled, and renders them for prompts.
+// Files retrieved from the embedding index, if any, go first.
+
+export const DEFAULT_CONTEXT_TOKENS = 2000;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Unmatched entries fill leftover budget in this order: routes give the model the app's shape
+const KIND_ORDER: Record<CodebaseEntryKind, number> = { route: 0, action: 1, component: 2 };
+
+export interface ContextEntry {
+  path: string;
+  kind: CodebaseEntryKind | 'related'; // 'related': retrieved file that isn't in the map
+  score: number; // BM25 score, or embedding similarity for retrieved files
+  retrieved?: boolean;
+}
+
+export interface CodebaseContext {
+  text: string;
+  included: ContextEntry[];
+  omitted: number;
+  tokens: number;
+}
+
+// Rough token count (~4 characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Explicit budget, then ANALYSIS_CONTEXT_TOKENS, then the default
+export function resolveContextTokens(tokens?: number): number {
+  if (tokens) return tokens;
+  const fromEnv = Number(getEnvVar('ANALYSIS_CONTEXT_TOKENS', false));
+  return Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_CONTEXT_TOKENS;
+}
+
+function entryTerms(entry: CodebaseEntry): string[] {
+  const symbols = (entry.exports || []).map(s => s.name).join(' ');
+  return tokenize(`${entry.path} ${symbols}`).map(stem);
+}
+
+function ticketTerms(ticket: ClickUpTask): string[] {
+  const text = [ticket.name, ticket.description || '', ...(ticket.tags || []).map(t => t.name)].join(' ');
+  return extractKeywords(text).map(stem);
+}
+
+// BM25 score of every entry against the ticket's keywords
+export function rankCodebaseEntries(ticket: ClickUpTask, codebaseMap: CodebaseMap): ContextEntry[] {
+  const entries = codebaseEntries(codebaseMap);
+  const documents = entries.map(entryTerms);
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, documents.length);
+
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(doc => new Set(doc).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+
+  const query = Array.from(new Set(ticketTerms(ticket)));
+
+  return entries
+    .map((entry, i) => {
+      const doc = documents[i];
+      let score = 0;
+      for (const term of query) {
+        const df = documentFrequency.get(term);
+        if (!df) continue;
+        const tf = doc.filter(t => t === term).length;
+        if (tf === 0) continue;
+        const idf = Math.log(1 + (entries.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / averageLength));
+      }
+      return { path: entry.path, kind: entry.kind, score: Math.round(score * 1000) / 1000 };
+    })
+    .sort((a, b) => b.score - a.score || KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.path.localeCompare(b.path));
+}
+
+const SECTION_TITLES: Record<ContextEntry['kind'], string> = {
+  related: 'Related files (semantic search)',
+  route: 'Routes',
+  component: 'Components',
+  action: 'Server Actions',
+};
+
+// One prompt line per file, keyed by path: "  /profile: app/profile/page.tsx (ProfilePage)"
+function entryLines(codebaseMap: CodebaseMap): Map<string, string> {
+  return new Map(codebaseEntries(codebaseMap).map(entry => [
+    entry.path,
+    `  ${entry.route ? `${entry.route}: ` : ''}${describeFile(codebaseMap, entry.path)}`,
+  ]));
+}
+
+function renderContext(lines: Map<string, string>, included: ContextEntry[], omitted: number): string {
+  const sections: string[] = [];
+
+  for (const kind of ['related', 'route', 'component', 'action'] as const) {
+    const section = included.filter(e => e.kind === kind).map(e => lines.get(e.path));
+    if (section.length > 0) {
+      sections.push(`${SECTION_TITLES[kind]}:\n${section.join('\n')}`);
+    }
+  }
+
+  if (omitted > 0) {
+    sections.push(`(${omitted} less relevant files omitted)`);
+  }
+  return sections.join('\n\n');
+}
+
+// Retrieved files first, then the most relevant map entries, then unmatched ones
+// while the budget lasts
+export function selectCodebaseContext(
+  ticket: ClickUpTask,
+  codebaseMap: CodebaseMap,
+  tokenBudget = resolveContextTokens(),
+  related: RetrievedFile[] = [],
+): CodebaseContext {
+  const ranked = rankCodebaseEntries(ticket, codebaseMap);
+  const lines = entryLines(codebaseMap);
+  const kinds = new Map(ranked.map(e => [e.path, e.kind]));
+
+  const retrieved: ContextEntry[] = related.map(file => ({
+    path: file.path,
+    kind: kinds.get(file.path) || 'related',
+    score: file.score,
+    retrieved: true,
+  }));
+  retrieved
+    .filter(entry => !lines.has(entry.path))
+    .forEach(entry => lines.set(entry.path, `  ${describeFile(codebaseMap, entry.path)}`));
+
+  const retrievedPaths = new Set(retrieved.map(e => e.path));
+  const candidates = [...retrieved, ...ranked.filter(e => !retrievedPaths.has(e.path))];
+  const included: ContextEntry[] = [];
+  let tokens = 0;
+
+  for (const entry of candidates) {
+    const cost = estimateTokens(`${lines.get(entry.path)}\n`);
+    if (tokens + cost > tokenBudget) continue;
+    included.push(entry);
+    tokens += cost;
+  }
+
+  const omitted = candidates.length - included.length;
+  const text = renderContext(lines, included, omitted);
+  return { text, included, omitted, tokens: estimateTokens(text) };
+}
@@ -0,0 +1,52 @@
+import type { CodebaseMap, DependencyGraph, TicketAnalysis } from '../types/index.js';
+
+// Cap on dependents recorded per analysis; a shared UI component can be imported everywhere
+export const MAX_DEPENDENT_FILES = 50;
+
+// Reverse adjacency: for each file, the files that import it directly
+function importersByFile(graph: DependencyGraph): Map<string, string[]> {
+  const importers = new Map<string, string[]>();
+  graph.imports.forEach((targets, from) => {
+    for (const to of targets) {
+      const file = graph.files[to];
+      if (file === undefined || graph.files[from] === undefined) continue;
+      importers.set(file, [...(importers.get(file) || []), graph.files[from]]);
+    }
+  });
+  return importers;
+}
+
+// Files that directly or transitively import any of the given files, nearest first
+export function transitiveDependents(
+  graph: DependencyGraph,
+  files: string[],
+  limit = MAX_DEPENDENT_FILES,
+): string[] {
+  const importers = importersByFile(graph);
+  const visited = new Set(files);
+  const dependents: string[] = [];
+  let frontier = files;
+
+  while (frontier.length > 0 && dependents.length < limit) {
+    const next: string[] = [];
+    for (const file of frontier) {
+      for (const importer of (importers.get(file) || []).sort()) {
+        if (visited.has(importer)) continue;
+        visited.add(importer);
+        dependents.push(importer);
+        next.push(importer);
+      }
+    }
+    frontier = next;
+  }
+
+  return dependents.slice(0, limit);
+}
+
+// Record the blast radius of an analysis' affected files; no-op for maps without a graph
+export function withDependentFiles(analysis: TicketAnalysis, codebaseMap: CodebaseMap): TicketAnalysis {
+  if (!codebaseMap.graph || analysis.affectedFiles.length === 0) {
+    return analysis;
+  }
+  return { ...analysis, dependentFiles: transitiveDependents(codebaseMap.graph, analysis.affectedFiles) };
+}
@@ -0,0 +1,128 @@
+import type { ClickUpTask, CodebaseMap, TicketAnalysis } from '../types/index.js';
+import { codebaseEntries } from './codebase-paths.js';
+import { withDependentFiles } from './dependency-graph.js';
+import { extractKeywords, stem, tokenize } from './keywords.js';
+
+// Rule-based ticket analysis: no network, same input always yields the same output.
+// Used as `analysisMode: 'heuristic'` and as the fallback when the LLM call fails.
+
+const ACCEPTANCE_CRITERIA = /acceptance criteria|definition of done|\bAC:|given\b[\s\S]{0,200}\bwhen\b[\s\S]{0,200}\bthen\b|^\s*[-*] \[[ x]\]/im;
+const REPRO_STEPS = /steps to reproduce|repro(duction)? steps|\bto reproduce\b|expected (result|behaviou?r)|actual (result|behaviou?r)|^\s*1[.)]\s/im;
+const LINKS_OR_SCREENSHOTS = /https?:\/\/\S+|!\[[^\]]*\]\(|\.(png|jpe?g|gif|webp|mp4|mov)\b|screenshot|screen recording|figma/i;
+const FIX_TAGS = new Set(['bug', 'fix', 'hotfix', 'defect', 'regression', 'incident']);
+const FIX_KEYWORDS = /\b(bug|broken|crash(es|ed|ing)?|fix|error|regression|fails?|failing|not working|doesn'?t work|typo|incorrect|wrong)\b/i;
+
+const MAX_AFFECTED_FILES = 5;
+
+const STORY_POINTS = [1, 2, 3, 5, 8, 13];
+
+export function classifyComplexity(ticket: ClickUpTask): TicketAnalysis['complexityTag'] {
+  const hasFixTag = (ticket.tags || []).some(t => FIX_TAGS.has(t.name.toLowerCase()));
+  const text = `${ticket.name}\n${ticket.description || ''}`;
+  return hasFixTag || FIX_KEYWORDS.test(text) ? 'fix' : 'feature';
+}
+
+function scoreQuality(ticket: ClickUpTask, complexityTag: TicketAnalysis['complexityTag']) {
+  const description = (ticket.description || '').trim();
+  const gaps: string[] = [];
+  let score = 1;
+
+  if (description.length >= 50) {
+    score++;
+  } else {
+    gaps.push(description.length === 0 ? 'No description provided' : 'Description is too short to act on');
+  }
+  if (description.length >= 200) {
+    score++;
+  } else if (description.length >= 50) {
+    gaps.push('Description could use more detail');
+  }
+
+  if (ACCEPTANCE_CRITERIA.test(description)) {
+    score++;
+  } else {
+    gaps.push('No acceptance criteria');
+  }
+
+  // Bugs need repro steps; features benefit from links to designs or screenshots
+  if (complexityTag === 'fix') {
+    if (REPRO_STEPS.test(description)) {
+      score++;
+    } else {
+      gaps.push('No steps to reproduce or expected vs actual behavior');
+    }
+  } else if (LINKS_OR_SCREENSHOTS.test(description)) {
+    score++;
+  } else {
+    gaps.push('No links, designs or screenshots');
+  }
+
+  return { qualityScore: Math.min(5, score), qualityGaps: gaps };
+}
+
+// Rank codebase paths by how many ticket keywords appear in their path segments
+// or exported symbol names
+export function matchAffectedFiles(ticket: ClickUpTask, codebaseMap: CodebaseMap, limit = MAX_AFFECTED_FILES): string[] {
+  const keywords = new Set(extractKeywords(`${ticket.name} ${ticket.description || ''}`).map(stem));
+  (ticket.tags || []).forEach(t => extractKeywords(t.name).forEach(k => keywords.add(stem(k))));
+  if (keywords.size === 0) return [];
+
+  const scored = codebaseEntries(codebaseMap)
+    .map(entry => {
+      const symbols = (entry.exports || []).map(s => s.name).join(' ');
+      const tokens = new Set(tokenize(`${entry.path} ${symbols}`).map(stem));
+      let score = 0;
+      keywords.forEach(k => {
+        if (tokens.has(k)) score++;
+      });
+      return { path: entry.path, score };
+    })
+    .filter(e => e.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+
+  return scored.slice(0, limit).map(e => e.path);
+}
+
+// Rough story points from the kind of change, how much code it touches and how
+// unclear the ticket is. Low confidence by design; ClickUp or LLM estimates win.
+export function estimateEffort(
+  complexityTag: TicketAnalysis['complexityTag'],
+  qualityScore: number,
+  affectedFiles: string[],
+  dependentFiles: string[] = [],
+): NonNullable<TicketAnalysis['estimate']> {
+  let size = complexityTag === 'fix' ? 1 : 3;
+  if (affectedFiles.length > 3) size += 2;
+  else if (affectedFiles.length > 1) size += 1;
+  if (dependentFiles.length > 10) size += 2;
+  else if (dependentFiles.length > 0) size += 1;
+  if (qualityScore <= 2) size += 1; // Unclear tickets hide work
+
+  const points = STORY_POINTS.find(p => p >= size) ?? STORY_POINTS[STORY_POINTS.length - 1];
+  return { points, confidence: 0.3, source: 'heuristic' };
+}
+
+export function analyzeTicketHeuristically(ticket: ClickUpTask, codebaseMap: CodebaseMap): TicketAnalysis {
+  const complexityTag = classifyComplexity(ticket);
+  const { qualityScore, qualityGaps } = scoreQuality(ticket, complexityTag);
+  const affectedFiles = matchAffectedFiles(ticket, codebaseMap);
+
+  const verb = complexityTag === 'fix' ? 'Reproduce and fix the issue' : 'Implement the feature';
+  const suggestedApproach = affectedFiles.length > 0
+    ? `${verb}, starting from ${affectedFiles.slice(0, 2).join(' and ')}.`
+    : `${verb}; no matching files were found in the codebase map, so locate the relevant area manually.`;
+
+  const analysis = withDependentFiles({
+    qualityScore,
+    qualityGaps,
+    affectedFiles,
+    complexityTag,
+    suggestedApproach,
+    source: 'heuristic',
+  }, codebaseMap);
+
+  return {
+    ...analysis,
+    estimate: estimateEffort(complexityTag, qualityScore, affectedFiles, analysis.dependentFiles),
+  };
+}
@@ -0,0 +1,15 @@
+export { analyzeTicketHeuristically, classifyComplexity, estimateEffort, matchAffectedFiles } from './heuristic-analyzer.js';
+export { codebaseEntries, describeFile, routeFilePath } from './codebase-paths.js';
+export type { CodebaseEntry, CodebaseEntryKind } from './codebase-paths.js';
+export { extractKeywords, stem, tokenize } from './keywords.js';
+export { normalizePath, validateAffectedFiles, withValidatedFiles } from './validate-files.js';
+export type { FileValidationResult } from './validate-files.js';
+export { MAX_DEPENDENT_FILES, transitiveDependents, withDependentFiles } from './dependency-graph.js';
+export {
+  DEFAULT_CONTEXT_TOKENS,
+  estimateTokens,
+  rankCodebaseEntries,
+  resolveContextTokens,
+  selectCodebaseContext,
+} from './context-selector.js';
+export type { CodebaseContext, ContextEntry } from './context-selector.js';
@@ -0,0 +1,30 @@
+// Keyword extraction shared by the heuristic analyzer and codebase matching
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'when', 'then', 'should', 'would', 'could',
+  'into', 'onto', 'have', 'has', 'had', 'are', 'was', 'were', 'will', 'not', 'but', 'can', 'all',
+  'any', 'our', 'your', 'their', 'there', 'which', 'what', 'where', 'who', 'how', 'why', 'also',
+  'been', 'being', 'some', 'more', 'than', 'only', 'just', 'need', 'needs', 'make', 'like', 'use',
+  'add', 'new', 'page', 'tsx', 'jsx', 'index', 'src', 'app', 'lib', 'components', 'http', 'https', 'www',
+]);
+
+// Lowercase word tokens, splitting camelCase, kebab-case, snake_case and path separators
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Distinct meaningful keywords (no stop words, at least 3 characters)
+export function extractKeywords(text: string): string[] {
+  return Array.from(new Set(tokenize(text).filter(t => t.length >= 3 && !STOP_WORDS.has(t))));
+}
+
+// Crude singular form so "buttons" matches "button" and "categories" matches "category"
+export function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`;
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1);
+  return token;
+}
@@ -0,0 +1,152 @@
+import type { CodebaseMap, FileMatch, TicketAnalysis } from '../types/index.js';
+import { codebaseEntries } from './codebase-paths.js';
+import { tokenize } from './keywords.js';
+
+// Post-processing for LLM-suggested affectedFiles: keep paths that exist in the
+// codebase map, fuzzy-correct near misses and record the rest as hallucinated.
+
+// Minimum similarity for a fuzzy correction to be accepted
+const MIN_CORRECTION_SIMILARITY = 0.7;
+
+// Confidence for a suggestion that only matches once route groups are ignored
+const ROUTE_GROUP_CONFIDENCE = 0.95;
+
+export interface FileValidationResult {
+  affectedFiles: string[];
+  fileMatches: FileMatch[];
+  hallucinatedFiles: string[];
+  invalidCount: number; // Suggestions that were not exact matches
+}
+
+// Canonical comparison key: forward slashes, no quotes/backticks, no leading "./" or "/",
+// no symbol suffix ("route.ts (GET)", "actions.ts#save"), lowercase
+export function normalizePath(path: string): string {
+  return path
+    .trim()
+    .replace(/\s+\([^)]*\)$|#[\w$]+$/, '')
+    .replace(/^[`'"]+|[`'"]+$/g, '')
+    .replace(/\\/g, '/')
+    .replace(/^(\.\/|\/)+/, '')
+    .replace(/\/+/g, '/')
+    .toLowerCase();
+}
+
+// "app/(marketing)/about/page.tsx" → "app/about/page.tsx"; models often leave groups out
+function withoutRouteGroups(key: string): string {
+  return key.replace(/\([^)/]+\)\//g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function similarity(a: string, b: string): number {
+  const distance = levenshtein(a, b);
+  let score = 1 - distance / Math.max(a.length, b.length);
+
+  // Same file name in a slightly different directory is a strong signal
+  if (basename(a) === basename(b)) {
+    score = Math.min(0.99, score + 0.15);
+  }
+  return score;
+}
+
+// Known paths are the map's entries, files in its import graph and any extra paths
+// (e.g. files retrieved from the embedding index)
+export function validateAffectedFiles(
+  files: string[],
+  codebaseMap: CodebaseMap,
+  extraPaths: string[] = [],
+): FileValidationResult {
+  const known = new Map<string, string>(); // normalized → original path
+  const grouped = new Map<string, string[]>(); // normalized without route groups → original paths
+  [...codebaseEntries(codebaseMap).map(e => e.path), ...(codebaseMap.graph?.files || []), ...extraPaths]
+    .forEach(path => {
+      const key = normalizePath(path);
+      if (known.has(key)) return;
+      known.set(key, path);
+      const groupKey = withoutRouteGroups(key);
+      grouped.set(groupKey, [...(grouped.get(groupKey) || []), path]);
+    });
+
+  const affectedFiles: string[] = [];
+  const fileMatches: FileMatch[] = [];
+  const hallucinatedFiles: string[] = [];
+  let invalidCount = 0;
+
+  for (const suggested of files) {
+    const key = normalizePath(suggested);
+    if (!key) continue;
+
+    const exact = known.get(key);
+    if (exact) {
+      if (!affectedFiles.includes(exact)) {
+        affectedFiles.push(exact);
+        fileMatches.push({ path: exact, confidence: 1 });
+      }
+      continue;
+    }
+
+    invalidCount++;
+
+    // Distinct files can share a key once groups are dropped; only an unambiguous one is taken
+    const groupMatches = grouped.get(withoutRouteGroups(key));
+    if (groupMatches?.length === 1) {
+      const [path] = groupMatches;
+      if (!affectedFiles.includes(path)) {
+        affectedFiles.push(path);
+        fileMatches.push({ path, confidence: ROUTE_GROUP_CONFIDENCE, correctedFrom: suggested });
+      }
+      continue;
+    }
+
+    // Only compare against paths that share a token with the suggestion
+    const suggestionTokens = new Set(tokenize(key));
+    let best: { path: string; score: number } | null = null;
+    for (const [candidateKey, candidatePath] of known) {
+      if (!tokenize(candidateKey).some(t => suggestionTokens.has(t))) continue;
+      const score = similarity(key, candidateKey);
+      if (!best || score > best.score) {
+        best = { path: candidatePath, score };
+      }
+    }
+
+    if (best && best.score >= MIN_CORRECTION_SIMILARITY) {
+      if (!affectedFiles.includes(best.path)) {
+        affectedFiles.push(best.path);
+        fileMatches.push({ path: best.path, confidence: Math.round(best.score * 100) / 100, correctedFrom: suggested });
+      }
+    } else {
+      hallucinatedFiles.push(suggested);
+    }
+  }
+
+  return { affectedFiles, fileMatches, hallucinatedFiles, invalidCount };
+}
+
+// Apply a validation result to an analysis
+export function withValidatedFiles(analysis: TicketAnalysis, validation: FileValidationResult): TicketAnalysis {
+  return {
+    ...analysis,
+    affectedFiles: validation.affectedFiles,
+    fileMatches: validation.fileMatches,
+    hallucinatedFiles: validation.hallucinatedFiles,
+  };
+}
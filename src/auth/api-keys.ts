@@ -0,0 +1,19 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// API keys are only ever stored as SHA-256 hashes. Keys are random, so an unsalted
+// fast hash is enough; it just keeps the config file from holding usable secrets.
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf-8').digest('hex');
+}
+
+// "sp_" plus 32 random bytes
+export function generateApiKey(): string {
+  return `sp_${randomBytes(32).toString('base64url')}`;
+}
+
+export function matchesApiKeyHash(key: string, hash: string): boolean {
+  const expected = Buffer.from(hash.toLowerCase(), 'hex');
+  const actual = Buffer.from(hashApiKey(key), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,69 @@
+import * as fs from 'fs';
+import { AuthConfigSchema, type ApiKey, type AuthConfig, type Tenant } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { matchesApiKeyHash } from './api-keys.js';
+import { decryptSecret, isEncrypted } from './encryption.js';
+import { McpAuthError } from './errors.js';
+
+let authConfig: AuthConfig | null | undefined;
+
+// Resolve the API key config from the environment:
+//   MCP_AUTH_CONFIG      → the config as inline JSON (convenient for Vercel env vars)
+//   MCP_AUTH_CONFIG_PATH → a JSON file with the same shape
+// Either may be encrypted as a whole ("enc:v1:...", see encryption.ts).
+// Returns null when neither is set.
+export function loadAuthConfig(): AuthConfig | null {
+  if (authConfig !== undefined) return authConfig;
+
+  const inline = getEnvVar('MCP_AUTH_CONFIG', false);
+  const configPath = getEnvVar('MCP_AUTH_CONFIG_PATH', false);
+  if (!inline && !configPath) {
+    authConfig = null;
+    return authConfig;
+  }
+
+  let text: string;
+  try {
+    text = (inline || fs.readFileSync(configPath, 'utf-8')).trim();
+    if (isEncrypted(text)) text = decryptSecret(text);
+  } catch (error) {
+    throw new McpAuthError(`Could not read the MCP auth config: ${error instanceof Error ? error.message : error}`, 500);
+  }
+
+  // Parse errors can quote the input, which holds secrets
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new McpAuthError('Could not read the MCP auth config: not valid JSON', 500);
+  }
+
+  const parsed = AuthConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new McpAuthError(`Invalid MCP auth config: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`, 500);
+  }
+  authConfig = parsed.data;
+  return authConfig;
+}
+
+// Override the resolved config (tests, custom deployments); undefined re-reads the environment
+export function setAuthConfig(config: AuthConfig | null | undefined): void {
+  authConfig = config;
+}
+
+// The active key and its tenant for a presented key, or null
+export function findApiKey(config: AuthConfig, key: string): { apiKey: ApiKey; tenant: Tenant } | null {
+  // Check every entry so timing doesn't reveal where a match was found
+  let found: ApiKey | undefined;
+  for (const apiKey of config.keys) {
+    if (matchesApiKeyHash(key, apiKey.hash) && !found) found = apiKey;
+  }
+  if (!found || found.revoked) return null;
+
+  const tenant = config.tenants.find(t => t.id === found!.tenantId);
+  return tenant ? { apiKey: found, tenant } : null;
+}
+
+export function findTenant(tenantId: string): Tenant | null {
+  return loadAuthConfig()?.tenants.find(t => t.id === tenantId) || null;
+}
@@ -0,0 +1,116 @@
+import type { Tenant, WebhookSigningKey } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { registerSecret } from '../utils/secrets.js';
+import { findTenant, loadAuthConfig } from './config.js';
+import { decryptSecret, isEncrypted } from './encryption.js';
+import { ForbiddenError, UnauthorizedError } from './errors.js';
+import type { McpAuthInfo } from './mcp-auth.js';
+
+// Which ClickUp token and default list a tool call or sync runs with. Tokens are
+// resolved per call and never copied into tool output, workflow state or payloads.
+
+export interface ClickUpCredentials {
+  token: string;
+  defaultListId?: string;
+  tenantId?: string;
+  allowedListIds?: string[]; // The tenant's listIds; any list when omitted
+}
+
+function isAuthInfo(value: unknown): value is McpAuthInfo {
+  return Boolean(value && typeof value === 'object' && 'clientId' in value);
+}
+
+// The auth info guardMcpRequest attached to the request, from a tool's execution
+// context (context.mcp.extra) or a workflow step's requestContext
+export function authInfoFrom(context: unknown): McpAuthInfo | undefined {
+  const { mcp, requestContext } = (context || {}) as {
+    mcp?: { extra?: { authInfo?: unknown } };
+    requestContext?: { get?: (key: string) => unknown };
+  };
+  const candidates = [
+    mcp?.extra?.authInfo,
+    (requestContext?.get?.('mcp.extra') as { authInfo?: unknown } | undefined)?.authInfo,
+    requestContext?.get?.('authInfo'),
+  ];
+  return candidates.find(isAuthInfo);
+}
+
+// The authenticated tenant behind a tool call or workflow step, if any
+export function resolveTenant(context?: unknown): Tenant | null {
+  const tenantId = authInfoFrom(context)?.extra.tenantId;
+  return tenantId ? findTenant(tenantId) : null;
+}
+
+function reveal(value: string): string {
+  const secret = isEncrypted(value) ? decryptSecret(value) : value;
+  registerSecret(secret);
+  return secret;
+}
+
+// Token: X-ClickUp-Token header, then the tenant's clickupToken, then CLICKUP_API_TOKEN.
+// Default list: X-ClickUp-List-Id header, then the tenant's defaultListId, then CLICKUP_LIST_ID.
+// Tenants never fall back to the server's CLICKUP_API_TOKEN or CLICKUP_LIST_ID, and once
+// API keys are configured every ClickUp call must come from an authenticated tenant.
+export function resolveClickUpCredentials(context?: unknown): ClickUpCredentials {
+  const auth = authInfoFrom(context)?.extra;
+  const tenant = resolveTenant(context);
+  if (!tenant && loadAuthConfig()) {
+    throw new UnauthorizedError('ClickUp calls need an authenticated API key');
+  }
+
+  const token = auth?.clickupToken || (tenant ? tenant.clickupToken : getEnvVar('CLICKUP_API_TOKEN', false));
+  if (!token) {
+    throw new Error(tenant
+      ? 'No ClickUp token: configure the tenant\'s clickupToken or send X-ClickUp-Token'
+      : 'No ClickUp token: send X-ClickUp-Token or set CLICKUP_API_TOKEN');
+  }
+
+  return {
+    token: reveal(token),
+    defaultListId: auth?.clickupListId || (tenant ? tenant.defaultListId : getEnvVar('CLICKUP_LIST_ID', false) || undefined),
+    tenantId: tenant?.id,
+    allowedListIds: tenant?.listIds,
+  };
+}
+
+// Throws ForbiddenError when the tenant may not use the list
+export function assertListAllowed(credentials: ClickUpCredentials, listId: string): void {
+  if (credentials.allowedListIds && !credentials.allowedListIds.includes(listId)) {
+    throw new ForbiddenError(`List ${listId} is not allowed for this API key`);
+  }
+}
+
+export function resolveListId(credentials: ClickUpCredentials, listId?: string): string {
+  const resolved = listId || credentials.defaultListId;
+  if (!resolved) {
+    throw new Error('No ClickUp list: pass listId, configure the tenant\'s defaultListId or set CLICKUP_LIST_ID');
+  }
+  assertListAllowed(credentials, resolved);
+  return resolved;
+}
+
+// WEBHOOK_SECRETS="<id>:<secret>,<id>:<secret>", newest first
+function envWebhookKeys(): WebhookSigningKey[] {
+  const keys = getEnvVar('WEBHOOK_SECRETS', false).split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const separator = entry.indexOf(':');
+    if (!/^[A-Za-z0-9._-]+$/.test(entry.slice(0, Math.max(separator, 0)))) {
+      throw new Error('WEBHOOK_SECRETS entries must look like <keyId>:<secret>, with letters, digits, ".", "_" or "-" in the key id');
+    }
+    return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+  });
+  const single = getEnvVar('WEBHOOK_SECRET', false);
+  return keys.length > 0 ? keys : single ? [{ id: 'default', secret: single }] : [];
+}
+
+// Webhook signing keys: the sync's webhookSecret (key id "default"), then the tenant's
+// webhookSecrets, then WEBHOOK_SECRETS / WEBHOOK_SECRET. Empty means unsigned.
+export function webhookSigningKeysFor(tenant: Tenant | null, webhookSecret?: string): WebhookSigningKey[] {
+  const keys = webhookSecret
+    ? [{ id: 'default', secret: webhookSecret }]
+    : tenant?.webhookSecrets ?? envWebhookKeys();
+  return keys.map(key => ({ id: key.id, secret: reveal(key.secret) }));
+}
+
+export function resolveWebhookSigningKeys(context?: unknown, webhookSecret?: string): WebhookSigningKey[] {
+  return webhookSigningKeysFor(webhookSecret ? null : resolveTenant(context), webhookSecret);
+}
@@ -0,0 +1,42 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { getEnvVar } from '../utils/env.js';
+
+// AES-256-GCM for secrets in config: a single value ("clickupToken": "enc:v1:...")
+// or a whole config file. CONFIG_ENCRYPTION_KEY is 32 random bytes, base64.
+//   enc:v1:<iv>:<auth tag>:<ciphertext>   (base64url parts)
+
+const PREFIX = 'enc:v1:';
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+function encryptionKey(): Buffer {
+  const key = Buffer.from(getEnvVar('CONFIG_ENCRYPTION_KEY'), 'base64');
+  if (key.length !== 32) {
+    throw new Error('CONFIG_ENCRYPTION_KEY must be 32 bytes, base64-encoded');
+  }
+  return key;
+}
+
+export function encryptSecret(plaintext: string, key: Buffer = encryptionKey()): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return PREFIX + [iv, cipher.getAuthTag(), data].map(part => part.toString('base64url')).join(':');
+}
+
+// Never includes the value in its errors
+export function decryptSecret(value: string, key: Buffer = encryptionKey()): string {
+  const [iv, tag, data] = value.slice(PREFIX.length).split(':').map(part => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !data) {
+    throw new Error('Malformed encrypted value');
+  }
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error('Could not decrypt a config value; check CONFIG_ENCRYPTION_KEY');
+  }
+}
@@ -0,0 +1,30 @@
+// Rejections returned to MCP clients as JSON-RPC errors
+
+// Server-defined JSON-RPC error codes (-32000 to -32099 are reserved for servers)
+export const JSON_RPC_UNAUTHORIZED = -32001;
+export const JSON_RPC_FORBIDDEN = -32003;
+
+export class McpAuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403 | 500) {
+    super(message);
+    this.name = 'McpAuthError';
+  }
+
+  get code(): number {
+    return this.status === 403 ? JSON_RPC_FORBIDDEN : this.status === 401 ? JSON_RPC_UNAUTHORIZED : -32603;
+  }
+}
+
+export class UnauthorizedError extends McpAuthError {
+  constructor(message = 'Missing or invalid API key. Send it as "Authorization: Bearer <key>".') {
+    super(message, 401);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends McpAuthError {
+  constructor(message: string) {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
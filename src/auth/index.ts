@@ -0,0 +1,8 @@
+export { generateApiKey, hashApiKey, matchesApiKeyHash } from './api-keys.js';
+export { assertListAllowed, authInfoFrom, resolveClickUpCredentials, resolveListId, resolveTenant, resolveWebhookSigningKeys, webhookSigningKeysFor } from './credentials.js';
+export type { ClickUpCredentials } from './credentials.js';
+export { decryptSecret, encryptSecret, isEncrypted } from './encryption.js';
+export { findApiKey, findTenant, loadAuthConfig, setAuthConfig } from './config.js';
+export { ForbiddenError, JSON_RPC_FORBIDDEN, JSON_RPC_UNAUTHORIZED, McpAuthError, UnauthorizedError } from './errors.js';
+export { authenticateApiKey, authenticateMcpRequest, authorizeMcpMessage, guardMcpRequest } from './mcp-auth.js';
+export type { McpAuthInfo, McpRequest } from './mcp-auth.js';
@@ -0,0 +1,146 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ApiKey, Tenant } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { matchesAllowedUrl } from '../webhooks/index.js';
+import { findApiKey, loadAuthConfig } from './config.js';
+import { ForbiddenError, McpAuthError, UnauthorizedError } from './errors.js';
+
+// Bearer-token authentication for the MCP endpoints. The authenticated tenant is put
+// on req.auth, which the MCP SDK hands to tools as context.mcp.extra.authInfo.
+
+// Shape of the MCP SDK's AuthInfo
+export interface McpAuthInfo {
+  token: string;
+  clientId: string; // Tenant id, or "anonymous" when auth is disabled
+  scopes: string[];
+  extra: {
+    tenantId?: string;
+    keyId?: string;
+    clickupToken?: string; // X-ClickUp-Token
+    clickupListId?: string; // X-ClickUp-List-Id
+  };
+}
+
+export type McpRequest = IncomingMessage & { body?: unknown; auth?: McpAuthInfo };
+
+interface JsonRpcMessage {
+  id?: string | number | null;
+  method?: string;
+  params?: { name?: string; arguments?: Record<string, unknown> };
+}
+
+// Tools that read or write a ClickUp list, falling back to the default list without a listId
+const LIST_TOOLS = new Set(['clickup_sync', 'run_sprintSync']);
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function bearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization;
+  const match = typeof header === 'string' ? /^Bearer\s+(\S+)\s*$/i.exec(header) : null;
+  return match ? match[1] : null;
+}
+
+// Rejects tool calls that use a list or webhook URL outside the tenant's allow-lists before
+// any work starts. Only a first line: agents choose their own tool arguments, so the
+// ClickUp credential helpers check every list again where it's used.
+// defaultListId is the list a call without listId falls back to, if the request names one.
+export function authorizeMcpMessage(tenant: Tenant, message: JsonRpcMessage, defaultListId?: string): void {
+  if (message.method !== 'tools/call') return;
+
+  const tool = message.params?.name || '';
+  const args = message.params?.arguments || {};
+  const listId = (typeof args.listId === 'string' && args.listId) || defaultListId || tenant.defaultListId;
+  const webhookUrl = typeof args.webhookUrl === 'string' ? args.webhookUrl : undefined;
+
+  if (tenant.listIds) {
+    if (listId && !tenant.listIds.includes(listId)) {
+      throw new ForbiddenError(`List ${listId} is not allowed for this API key`);
+    }
+    if (!listId && LIST_TOOLS.has(tool)) {
+      throw new ForbiddenError(`${tool} needs a listId for this API key`);
+    }
+  }
+  if (tenant.webhookUrls && webhookUrl && !matchesAllowedUrl(webhookUrl, tenant.webhookUrls)) {
+    throw new ForbiddenError('Webhook URL is not allowed for this API key');
+  }
+}
+
+// Checks the bearer token against the API keys, for the MCP endpoints and the
+// dashboard APIs that hold tenant data. Throws McpAuthError; without any auth config
+// every request is rejected unless MCP_AUTH_DISABLED=true (local development), which
+// yields a null tenant.
+export function authenticateApiKey(req: IncomingMessage): { tenant: Tenant; apiKey: ApiKey; token: string } | null {
+  const config = loadAuthConfig();
+  if (!config) {
+    if (getEnvVar('MCP_AUTH_DISABLED', false) === 'true') return null;
+    throw new McpAuthError('MCP authentication is not configured. Set MCP_AUTH_CONFIG or MCP_AUTH_CONFIG_PATH.', 500);
+  }
+
+  const token = bearerToken(req);
+  const match = token ? findApiKey(config, token) : null;
+  if (!token || !match) {
+    throw new UnauthorizedError();
+  }
+  return { ...match, token };
+}
+
+// Checks the bearer token and, for POSTs, the JSON-RPC calls in the body
+export function authenticateMcpRequest(req: McpRequest): Tenant | null {
+  // Per-request ClickUp credentials, used by resolveClickUpCredentials
+  const clickup = { clickupToken: header(req, 'x-clickup-token'), clickupListId: header(req, 'x-clickup-list-id') };
+
+  const match = authenticateApiKey(req);
+  if (!match) {
+    req.auth = { token: '', clientId: 'anonymous', scopes: [], extra: clickup };
+    return null;
+  }
+
+  if (req.method === 'POST' && req.body && typeof req.body === 'object') {
+    const messages = (Array.isArray(req.body) ? req.body : [req.body]) as JsonRpcMessage[];
+    messages.forEach(message => authorizeMcpMessage(match.tenant, message, clickup.clickupListId));
+  }
+
+  req.auth = {
+    token: match.token,
+    clientId: match.tenant.id,
+    scopes: [],
+    extra: { tenantId: match.tenant.id, keyId: match.apiKey.id, ...clickup },
+  };
+  return match.tenant;
+}
+
+function jsonRpcId(body: unknown): string | number | null {
+  const id = body && typeof body === 'object' && !Array.isArray(body) ? (body as JsonRpcMessage).id : undefined;
+  return typeof id === 'string' || typeof id === 'number' ? id : null;
+}
+
+// Runs authentication and answers rejected requests with a JSON-RPC error.
+// Returns false when the request was rejected and the response is finished.
+export function guardMcpRequest(req: McpRequest, res: ServerResponse): boolean {
+  try {
+    authenticateMcpRequest(req);
+    return true;
+  } catch (error) {
+    const rejection = error instanceof McpAuthError ? error : new McpAuthError('Authentication failed', 500);
+    if (rejection.status === 500) {
+      console.error('MCP auth error:', rejection.message);
+    } else {
+      console.warn(`MCP request rejected (${rejection.status}): ${rejection.message}`);
+    }
+
+    res.statusCode = rejection.status;
+    res.setHeader('Content-Type', 'application/json');
+    if (rejection.status === 401) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="sprint-pilot"');
+    }
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: rejection.code, message: rejection.status === 500 ? 'Server authentication is misconfigured' : rejection.message },
+      id: jsonRpcId(req.body),
+    }));
+    return false;
+  }
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import type { ClickUpTask, CodebaseIndex, CodebaseMap, TicketAnalysis } from '../types/index.js';
+
+// Cached analysis results, keyed by task id plus a hash of everything that feeds the prompt
+
+export interface CachedAnalysis {
+  analysis: TicketAnalysis;
+  analyzedAt: string;
+}
+
+export interface AnalysisCache {
+  get(key: string): Promise<CachedAnalysis | null>;
+  set(key: string, entry: CachedAnalysis): Promise<void>;
+}
+
+// Maximum number of entries kept by backends that trim their contents
+export const MAX_CACHED_ANALYSES = 2000;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Version of a codebase map: changes whenever its routes, components or actions change.
+// scannedAt is ignored so re-scanning an unchanged project keeps the cache warm.
+export function codebaseMapVersion(codebaseMap: CodebaseMap): string {
+  const { scannedAt: _scannedAt, ...content } = codebaseMap;
+  return sha256(JSON.stringify(content)).slice(0, 16);
+}
+
+// Version of an embedding index, ignoring builtAt like codebaseMapVersion ignores scannedAt
+export function codebaseIndexVersion(codebaseIndex: CodebaseIndex): string {
+  const { builtAt: _builtAt, ...content } = codebaseIndex;
+  return sha256(JSON.stringify(content)).slice(0, 16);
+}
+
+export function ticketContentHash(ticket: ClickUpTask, mapVersion: string): string {
+  return sha256(JSON.stringify({
+    name: ticket.name,
+    description: ticket.description || '',
+    status: ticket.status.status,
+    priority: ticket.priority?.priority || null,
+    tags: (ticket.tags || []).map(t => t.name).sort(),
+    mapVersion,
+  }));
+}
+
+export function analysisCacheKey(ticket: ClickUpTask, mapVersion: string): string {
+  return `${ticket.id}:${ticketContentHash(ticket, mapVersion)}`;
+}
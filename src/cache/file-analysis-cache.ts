@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { MAX_CACHED_ANALYSES, type AnalysisCache, type CachedAnalysis } from './analysis-cache.js';
+
+// JSON file backend for local development
+export class FileAnalysisCache implements AnalysisCache {
+  // Serializes read-modify-write cycles within this process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private read(): Record<string, CachedAnalysis> {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const data = JSON.parse(raw) as { entries?: Record<string, CachedAnalysis> };
+      return data.entries && typeof data.entries === 'object' ? data.entries : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private write(entries: Record<string, CachedAnalysis>): void {
+    // Keep the most recently analyzed entries
+    const kept = Object.entries(entries)
+      .sort(([, a], [, b]) => b.analyzedAt.localeCompare(a.analyzedAt))
+      .slice(0, MAX_CACHED_ANALYSES);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ entries: Object.fromEntries(kept) }, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private exclusive<T>(fn: () => T): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  get(key: string): Promise<CachedAnalysis | null> {
+    return this.exclusive(() => this.read()[key] || null);
+  }
+
+  set(key: string, entry: CachedAnalysis): Promise<void> {
+    return this.exclusive(() => {
+      const entries = this.read();
+      entries[key] = entry;
+      this.write(entries);
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import { getEnvVar } from '../utils/env.js';
+import { defaultDataPath } from '../utils/data-dir.js';
+import type { TicketAnalysis } from '../types/index.js';
+import type { AnalysisCache, CachedAnalysis } from './analysis-cache.js';
+import { FileAnalysisCache } from './file-analysis-cache.js';
+import { KvAnalysisCache } from './kv-analysis-cache.js';
+import { MemoryAnalysisCache } from './memory-analysis-cache.js';
+
+export type { AnalysisCache, CachedAnalysis } from './analysis-cache.js';
+export { analysisCacheKey, codebaseIndexVersion, codebaseMapVersion, ticketContentHash } from './analysis-cache.js';
+export { FileAnalysisCache } from './file-analysis-cache.js';
+export { KvAnalysisCache } from './kv-analysis-cache.js';
+export { MemoryAnalysisCache } from './memory-analysis-cache.js';
+
+let analysisCache: AnalysisCache | null = null;
+
+// Resolve the analysis cache backend from the environment:
+//   ANALYSIS_CACHE=kv     → KV_REST_API_URL + KV_REST_API_TOKEN (default when both are set)
+//   ANALYSIS_CACHE=file   → ANALYSIS_CACHE_PATH or .data/analysis-cache.json (default otherwise)
+//   ANALYSIS_CACHE=memory → process-local, lost on restart
+export function getAnalysisCache(): AnalysisCache {
+  if (analysisCache) return analysisCache;
+
+  const kvUrl = getEnvVar('KV_REST_API_URL', false);
+  const kvToken = getEnvVar('KV_REST_API_TOKEN', false);
+  const backend = getEnvVar('ANALYSIS_CACHE', false) || (kvUrl && kvToken ? 'kv' : 'file');
+
+  switch (backend) {
+    case 'kv':
+      analysisCache = new KvAnalysisCache(getEnvVar('KV_REST_API_URL'), getEnvVar('KV_REST_API_TOKEN'));
+      break;
+    case 'memory':
+      analysisCache = new MemoryAnalysisCache();
+      break;
+    case 'file':
+      analysisCache = new FileAnalysisCache(
+        getEnvVar('ANALYSIS_CACHE_PATH', false) || defaultDataPath('analysis-cache.json'),
+      );
+      break;
+    default:
+      throw new Error(`Unknown ANALYSIS_CACHE backend: ${backend}`);
+  }
+
+  return analysisCache;
+}
+
+// Override the resolved cache (tests, custom deployments)
+export function setAnalysisCache(cache: AnalysisCache | null): void {
+  analysisCache = cache;
+}
+
+// ---- Best-effort helpers used by the sprint-sync workflow ----
+// A cache outage only costs extra LLM calls, so failures are logged and ignored.
+
+export async function lookupCachedAnalysis(key: string): Promise<CachedAnalysis | null> {
+  try {
+    return await getAnalysisCache().get(key);
+  } catch (error) {
+    console.warn('Analysis cache read failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+export async function storeCachedAnalysis(key: string, analysis: TicketAnalysis): Promise<void> {
+  try {
+    await getAnalysisCache().set(key, { analysis, analyzedAt: new Date().toISOString() });
+  } catch (error) {
+    console.warn('Analysis cache write failed:', error instanceof Error ? error.message : error);
+  }
+}
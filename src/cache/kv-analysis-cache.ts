@@ -0,0 +1,27 @@
+import { KvClient } from '../utils/kv.js';
+import type { AnalysisCache, CachedAnalysis } from './analysis-cache.js';
+
+// Entries expire after 30 days so stale ticket versions don't accumulate
+const TTL_SECONDS = 60 * 60 * 24 * 30;
+
+// Redis-over-REST adapter (Vercel KV / Upstash), one key per cache entry
+export class KvAnalysisCache implements AnalysisCache {
+  private readonly kv: KvClient;
+
+  constructor(url: string, token: string, private readonly prefix = 'sprint-pilot') {
+    this.kv = new KvClient(url, token);
+  }
+
+  private entryKey(key: string): string {
+    return `${this.prefix}:analysis:${key}`;
+  }
+
+  async get(key: string): Promise<CachedAnalysis | null> {
+    const raw = await this.kv.command<string | null>('GET', this.entryKey(key));
+    return raw ? (JSON.parse(raw) as CachedAnalysis) : null;
+  }
+
+  async set(key: string, entry: CachedAnalysis): Promise<void> {
+    await this.kv.command('SET', this.entryKey(key), JSON.stringify(entry), 'EX', TTL_SECONDS);
+  }
+}
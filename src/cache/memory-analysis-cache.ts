@@ -0,0 +1,21 @@
+import { MAX_CACHED_ANALYSES, type AnalysisCache, type CachedAnalysis } from './analysis-cache.js';
+
+// Process-local cache, only effective while a serverless instance stays warm
+export class MemoryAnalysisCache implements AnalysisCache {
+  private entries = new Map<string, CachedAnalysis>();
+
+  async get(key: string): Promise<CachedAnalysis | null> {
+    return this.entries.get(key) || null;
+  }
+
+  async set(key: string, entry: CachedAnalysis): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    // Map preserves insertion order, so the first key is the oldest
+    while (this.entries.size > MAX_CACHED_ANALYSES) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import { DEFAULT_CLICKUP_MAX_PAGES, type ClickUpPageInfo, type ClickUpTask } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import {
+  ClickUpAuthError,
+  ClickUpError,
+  ClickUpNotFoundError,
+  ClickUpRateLimitError,
+  ClickUpTimeoutError,
+} from './errors.js';
+import { parseClickUpTask } from './parse.js';
+
+export const CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
+
+// ClickUp returns at most this many tasks per page
+const CLICKUP_PAGE_SIZE = 100;
+
+// Task comments come newest first, this many per call
+const CLICKUP_COMMENT_PAGE_SIZE = 25;
+const MAX_COMMENT_PAGES = 40;
+
+export interface ClickUpClientOptions {
+  apiToken: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  maxRetries?: number;
+  // Upper bound for a single backoff wait; longer Retry-After values fail fast
+  maxBackoffMs?: number;
+}
+
+export interface GetTasksOptions {
+  includeSubtasks?: boolean;
+  statuses?: string[];
+  maxPages?: number;
+}
+
+export interface GetTasksResult {
+  tasks: ClickUpTask[];
+  pagination: ClickUpPageInfo;
+}
+
+export interface ClickUpComment {
+  id: string;
+  comment_text: string;
+  date?: string; // Epoch ms; the cursor for older pages
+}
+
+export interface ClickUpCustomField {
+  id: string;
+  name: string;
+  type: string;
+}
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class ClickUpClient {
+  private readonly apiToken: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly maxBackoffMs: number;
+
+  // Epoch ms before which no request should be sent (from X-RateLimit-Remaining: 0)
+  private throttledUntil = 0;
+
+  constructor(options: ClickUpClientOptions) {
+    this.apiToken = options.apiToken;
+    this.baseUrl = (options.baseUrl || CLICKUP_API_BASE).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+  }
+
+  // Fetch every page of a list's tasks, up to maxPages
+  async getTasks(listId: string, options: GetTasksOptions = {}): Promise<GetTasksResult> {
+    const { includeSubtasks = true, statuses, maxPages = DEFAULT_CLICKUP_MAX_PAGES } = options;
+
+    const tasks: ClickUpTask[] = [];
+    let pagesRead = 0;
+    let lastPage = false;
+
+    // ClickUp pages are zero-based
+    while (!lastPage && pagesRead < maxPages) {
+      const data = await this.request<{ tasks?: unknown[]; last_page?: boolean }>(
+        'GET',
+        `/list/${encodeURIComponent(listId)}/task`,
+        {
+          query: {
+            include_subtasks: includeSubtasks,
+            'statuses[]': statuses && statuses.length > 0 ? statuses : undefined,
+            page: pagesRead,
+          },
+        },
+      );
+
+      const pageTasks = data.tasks || [];
+      tasks.push(...pageTasks.map(parseClickUpTask));
+      pagesRead++;
+
+      // Older API responses omit last_page; a short page means there is nothing more
+      lastPage = data.last_page ?? pageTasks.length < CLICKUP_PAGE_SIZE;
+    }
+
+    const truncated = !lastPage;
+    if (truncated) {
+      console.warn(`ClickUp list ${listId} has more than ${maxPages} pages of tasks; results were truncated.`);
+    }
+
+    return { tasks, pagination: { pagesRead, truncated } };
+  }
+
+  // The list a task lives in (its home list, not lists it was added to)
+  async getTaskListId(taskId: string): Promise<string> {
+    const data = await this.request<{ list?: { id: string | number } }>('GET', `/task/${encodeURIComponent(taskId)}`);
+    if (!data.list) {
+      throw new ClickUpError(`ClickUp task ${taskId} has no list`);
+    }
+    return String(data.list.id);
+  }
+
+  // One page of comments, newest first; pass the oldest comment seen to get the ones before it
+  async getTaskComments(taskId: string, before?: ClickUpComment): Promise<ClickUpComment[]> {
+    const data = await this.request<{ comments?: { id: string | number; comment_text?: string; date?: string | number }[] }>(
+      'GET',
+      `/task/${encodeURIComponent(taskId)}/comment`,
+      { query: { start: before?.date, start_id: before?.id } },
+    );
+    return (data.comments || []).map(c => ({
+      id: String(c.id),
+      comment_text: c.comment_text || '',
+      date: c.date !== undefined ? String(c.date) : undefined,
+    }));
+  }
+
+  // Pages back through a task's comments until one matches, up to MAX_COMMENT_PAGES
+  async findTaskComment(taskId: string, match: (comment: ClickUpComment) => boolean): Promise<ClickUpComment | null> {
+    let before: ClickUpComment | undefined;
+    for (let page = 0; page < MAX_COMMENT_PAGES; page++) {
+      const comments = await this.getTaskComments(taskId, before);
+      const found = comments.find(match);
+      if (found) return found;
+
+      before = comments[comments.length - 1];
+      if (comments.length < CLICKUP_COMMENT_PAGE_SIZE || !before?.date) return null;
+    }
+    return null;
+  }
+
+  async createTaskComment(taskId: string, text: string): Promise<string> {
+    const data = await this.request<{ id: string | number }>(
+      'POST',
+      `/task/${encodeURIComponent(taskId)}/comment`,
+      { body: { comment_text: text, notify_all: false } },
+    );
+    return String(data.id);
+  }
+
+  async updateComment(commentId: string, text: string): Promise<void> {
+    await this.request('PUT', `/comment/${encodeURIComponent(commentId)}`, {
+      body: { comment_text: text },
+    });
+  }
+
+  async getListCustomFields(listId: string): Promise<ClickUpCustomField[]> {
+    const data = await this.request<{ fields?: ClickUpCustomField[] }>(
+      'GET',
+      `/list/${encodeURIComponent(listId)}/field`,
+    );
+    return data.fields || [];
+  }
+
+  async setCustomFieldValue(taskId: string, fieldId: string, value: unknown): Promise<void> {
+    await this.request('POST', `/task/${encodeURIComponent(taskId)}/field/${encodeURIComponent(fieldId)}`, {
+      body: { value },
+    });
+  }
+
+  async addTag(taskId: string, tagName: string): Promise<void> {
+    await this.request('POST', `/task/${encodeURIComponent(taskId)}/tag/${encodeURIComponent(tagName)}`);
+  }
+
+  async removeTag(taskId: string, tagName: string): Promise<void> {
+    await this.request('DELETE', `/task/${encodeURIComponent(taskId)}/tag/${encodeURIComponent(tagName)}`);
+  }
+
+  private buildUrl(path: string, query?: Record<string, QueryValue>): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query || {})) {
+      if (value === undefined) continue;
+      if (Array.isArray(value)) {
+        value.forEach(v => params.append(key, v));
+      } else {
+        params.set(key, String(value));
+      }
+    }
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+
+  // Delay requested by the server, from Retry-After (seconds or HTTP date) or X-RateLimit-Reset (epoch seconds)
+  private retryDelayMs(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      if (!Number.isNaN(seconds)) return seconds * 1000;
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+    }
+
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    if (reset > 0) {
+      return Math.max(0, reset * 1000 - Date.now());
+    }
+
+    return Math.pow(2, attempt) * 1000;
+  }
+
+  private noteRateLimit(response: Response): void {
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    if (remaining !== null && Number(remaining) <= 0) {
+      this.throttledUntil = Date.now() + Math.min(this.retryDelayMs(response, 0), this.maxBackoffMs);
+    }
+  }
+
+  private async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(path, options.query);
+
+    for (let attempt = 0; ; attempt++) {
+      const wait = this.throttledUntil - Date.now();
+      if (wait > 0) {
+        await sleep(wait);
+      }
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: {
+            'Authorization': this.apiToken,
+            'Content-Type': 'application/json',
+          },
+          body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new ClickUpTimeoutError(this.timeoutMs);
+        }
+        if (attempt < this.maxRetries) {
+          await sleep(Math.pow(2, attempt) * 1000);
+          continue;
+        }
+        throw new ClickUpError(`ClickUp API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      this.noteRateLimit(response);
+
+      if (response.ok) {
+        // Some write endpoints return an empty body
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+      }
+
+      if (response.status === 401 || response.status === 403) {
+        throw new ClickUpAuthError(response.status);
+      }
+      if (response.status === 404) {
+        throw new ClickUpNotFoundError(path);
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < this.maxRetries) {
+        const delay = this.retryDelayMs(response, attempt);
+        if (delay <= this.maxBackoffMs) {
+          console.warn(`ClickUp API returned ${response.status}; retrying in ${Math.round(delay / 1000)}s...`);
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      if (response.status === 429) {
+        throw new ClickUpRateLimitError(this.retryDelayMs(response, attempt));
+      }
+      throw new ClickUpError(`ClickUp API error: ${response.status} ${response.statusText}`, response.status);
+    }
+  }
+}
+
+// Client configured from CLICKUP_API_TOKEN (and CLICKUP_API_BASE, for mock servers)
+export function createClickUpClient(options: Partial<ClickUpClientOptions> = {}): ClickUpClient {
+  return new ClickUpClient({
+    ...options,
+    apiToken: options.apiToken || getEnvVar('CLICKUP_API_TOKEN'),
+    baseUrl: options.baseUrl || getEnvVar('CLICKUP_API_BASE', false) || undefined,
+  });
+}
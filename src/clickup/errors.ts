@@ -0,0 +1,36 @@
+// Typed errors raised by the ClickUp API client
+
+export class ClickUpError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'ClickUpError';
+  }
+}
+
+export class ClickUpAuthError extends ClickUpError {
+  constructor(status = 401) {
+    super('Invalid ClickUp API token. Check the token configured for this tenant, the X-ClickUp-Token header or CLICKUP_API_TOKEN.', status);
+    this.name = 'ClickUpAuthError';
+  }
+}
+
+export class ClickUpNotFoundError extends ClickUpError {
+  constructor(resource: string) {
+    super(`ClickUp resource not found: ${resource}. Verify the list or task id.`, 404);
+    this.name = 'ClickUpNotFoundError';
+  }
+}
+
+export class ClickUpRateLimitError extends ClickUpError {
+  constructor(public readonly retryAfterMs?: number) {
+    super('ClickUp API rate limit exceeded. Please try again later.', 429);
+    this.name = 'ClickUpRateLimitError';
+  }
+}
+
+export class ClickUpTimeoutError extends ClickUpError {
+  constructor(timeoutMs: number) {
+    super(`ClickUp API request timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'ClickUpTimeoutError';
+  }
+}
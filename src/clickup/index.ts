@@ -0,0 +1,23 @@
+export { ClickUpClient, createClickUpClient, CLICKUP_API_BASE } from './client.js';
+export type {
+  ClickUpClientOptions,
+  ClickUpComment,
+  ClickUpCustomField,
+  GetTasksOptions,
+  GetTasksResult,
+} from './client.js';
+export {
+  ClickUpError,
+  ClickUpAuthError,
+  ClickUpNotFoundError,
+  ClickUpRateLimitError,
+  ClickUpTimeoutError,
+} from './errors.js';
+export { parseClickUpTask } from './parse.js';
+export {
+  ANALYSIS_COMMENT_MARKER,
+  formatAnalysisComment,
+  resolveCustomFieldId,
+  writeBackAnalysis,
+} from './write-back.js';
+export type { WriteBackSettings } from './write-back.js';
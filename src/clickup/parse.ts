@@ -0,0 +1,47 @@
+import { ClickUpTaskSchema, type ClickUpTask } from '../types/index.js';
+
+// Parse a raw ClickUp task, falling back to a minimal valid task when the
+// payload does not match the schema (ClickUp adds and changes fields freely)
+export function parseClickUpTask(task: unknown): ClickUpTask {
+  const result = ClickUpTaskSchema.safeParse(task);
+  if (result.success) {
+    return result.data;
+  }
+
+  const t = (task && typeof task === 'object' ? task : {}) as Record<string, any>;
+  console.warn(`Failed to parse task ${t.id}:`, result.error.issues.map(i => i.message).join('; '));
+
+  return {
+    id: String(t.id ?? ''),
+    custom_id: typeof t.custom_id === 'string' ? t.custom_id : null,
+    name: typeof t.name === 'string' && t.name ? t.name : 'Untitled Task',
+    description: typeof t.description === 'string' ? t.description : null,
+    status: { status: typeof t.status?.status === 'string' ? t.status.status : 'unknown' },
+    assignees: Array.isArray(t.assignees)
+      ? t.assignees
+        .filter((a: any) => a && typeof a.id === 'number')
+        .map((a: any) => ({ id: a.id, username: String(a.username ?? a.email ?? a.id), email: a.email ?? undefined }))
+      : [],
+    priority: t.priority && typeof t.priority.priority === 'string'
+      ? { id: String(t.priority.id ?? ''), priority: t.priority.priority, color: String(t.priority.color ?? '') }
+      : null,
+    tags: Array.isArray(t.tags)
+      ? t.tags.filter((tag: any) => tag && typeof tag.name === 'string').map((tag: any) => ({ name: tag.name }))
+      : [],
+    due_date: t.due_date != null ? String(t.due_date) : null,
+    time_estimate: typeof t.time_estimate === 'number' ? t.time_estimate : null,
+    points: typeof t.points === 'number' ? t.points : null,
+    custom_fields: Array.isArray(t.custom_fields) ? t.custom_fields : [],
+    dependencies: Array.isArray(t.dependencies)
+      ? t.dependencies
+        .filter((d: any) => d && d.task_id != null && d.depends_on != null)
+        .map((d: any) => ({ task_id: String(d.task_id), depends_on: String(d.depends_on) }))
+      : [],
+    linked_tasks: Array.isArray(t.linked_tasks)
+      ? t.linked_tasks
+        .filter((l: any) => l && l.task_id != null && l.link_id != null)
+        .map((l: any) => ({ task_id: String(l.task_id), link_id: String(l.link_id) }))
+      : [],
+    url: typeof t.url === 'string' ? t.url : '',
+  };
+}
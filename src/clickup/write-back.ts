@@ -0,0 +1,112 @@
+import type { ClickUpTask, TicketAnalysis, WriteBackOptions, WriteBackResult } from '../types/index.js';
+import type { ClickUpClient } from './client.js';
+
+// Marker that identifies Sprint Pilot's analysis comment so re-syncs update it in place
+export const ANALYSIS_COMMENT_MARKER = '[sprint-pilot:analysis]';
+
+export type WriteBackSettings = Omit<WriteBackOptions, 'enabled' | 'qualityScoreField'> & {
+  qualityScoreFieldId?: string;
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function formatAnalysisComment(analysis: TicketAnalysis): string {
+  const lines: string[] = [];
+
+  lines.push('🤖 Sprint Pilot analysis');
+  lines.push('');
+  lines.push(`Quality: ${analysis.qualityScore}/5`);
+  lines.push(`Complexity: ${analysis.complexityTag}`);
+  if (analysis.source === 'heuristic') {
+    lines.push('Analysis: heuristic (rule-based, no LLM)');
+  }
+
+  if (analysis.qualityGaps.length > 0) {
+    lines.push('');
+    lines.push('Quality gaps:');
+    analysis.qualityGaps.forEach(gap => lines.push(`- ${gap}`));
+  }
+
+  if (analysis.affectedFiles.length > 0) {
+    lines.push('');
+    lines.push('Affected files:');
+    analysis.affectedFiles.forEach(file => lines.push(`- ${file}`));
+  }
+
+  lines.push('');
+  lines.push(`Suggested approach: ${analysis.suggestedApproach}`);
+  lines.push('');
+  lines.push(`${ANALYSIS_COMMENT_MARKER} Updated automatically on each sync; manual edits will be overwritten.`);
+
+  return lines.join('\n');
+}
+
+// Resolve a custom field given by name (case-insensitive) or id
+export async function resolveCustomFieldId(
+  client: ClickUpClient,
+  listId: string,
+  nameOrId: string,
+): Promise<string | undefined> {
+  if (UUID_PATTERN.test(nameOrId)) {
+    return nameOrId;
+  }
+
+  const fields = await client.getListCustomFields(listId);
+  const field = fields.find(f => f.name.toLowerCase() === nameOrId.toLowerCase());
+  if (!field) {
+    console.warn(`Custom field "${nameOrId}" not found on list ${listId}; skipping quality score field.`);
+  }
+  return field?.id;
+}
+
+// Post (or update) the analysis comment, set the quality score field and
+// toggle the refinement tag. Safe to run repeatedly for the same task.
+export async function writeBackAnalysis(
+  client: ClickUpClient,
+  ticket: ClickUpTask,
+  analysis: TicketAnalysis,
+  settings: WriteBackSettings,
+): Promise<WriteBackResult> {
+  const result: WriteBackResult = {
+    taskId: ticket.id,
+    comment: 'unchanged',
+    qualityScoreFieldSet: false,
+    refinementTag: 'unchanged',
+  };
+
+  try {
+    const text = formatAnalysisComment(analysis);
+    const existing = await client.findTaskComment(ticket.id, c => c.comment_text.includes(ANALYSIS_COMMENT_MARKER));
+
+    if (!existing) {
+      await client.createTaskComment(ticket.id, text);
+      result.comment = 'created';
+    } else if (existing.comment_text.trim() !== text.trim()) {
+      await client.updateComment(existing.id, text);
+      result.comment = 'updated';
+    }
+
+    if (settings.qualityScoreFieldId) {
+      await client.setCustomFieldValue(ticket.id, settings.qualityScoreFieldId, analysis.qualityScore);
+      result.qualityScoreFieldSet = true;
+    }
+
+    // ClickUp stores tag names in lowercase
+    const tagName = settings.refinementTag.toLowerCase();
+    const hasTag = (ticket.tags || []).some(t => t.name.toLowerCase() === tagName);
+    const needsRefinement = analysis.qualityScore < settings.refinementThreshold;
+
+    if (needsRefinement && !hasTag) {
+      await client.addTag(ticket.id, tagName);
+      result.refinementTag = 'added';
+    } else if (!needsRefinement && hasTag) {
+      await client.removeTag(ticket.id, tagName);
+      result.refinementTag = 'removed';
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Write-back failed for task ${ticket.id}:`, result.error);
+  }
+
+  return result;
+}
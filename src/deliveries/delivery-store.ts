@@ -0,0 +1,56 @@
+import type { WebhookPayload } from '../types/index.js';
+
+// Webhook outbox types and the storage interface shared by all backends
+
+// pending   → waiting for its next attempt
+// delivered → a receiver accepted it
+// dead      → out of attempts or refused by the target policy; only a manual redelivery retries it
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface DeliveryAttempt {
+  at: string;
+  error?: string; // Absent when the attempt succeeded
+  manual?: boolean; // Redelivered from /api/deliveries
+}
+
+export interface DeliveryRecord {
+  id: string; // Sent as X-Sprint-Pilot-Delivery on every attempt, so receivers can drop duplicates
+  jobId: string;
+  listId: string;
+  tenantId?: string; // Signing keys and target policy are resolved again for each attempt
+  webhookUrl: string; // Never served by /api/deliveries; the query string can carry tokens
+  target: string; // Origin and path, for display
+  webhookSecret?: string; // The sync's own webhookSecret, only ever stored encrypted ("enc:v1:...")
+  payload: WebhookPayload;
+  status: DeliveryStatus;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+  nextAttemptAt?: string; // Set while pending
+  deliveredAt?: string;
+  lastError?: string;
+  history: DeliveryAttempt[];
+}
+
+export interface DeliveryStore {
+  create(record: DeliveryRecord): Promise<void>;
+  get(id: string): Promise<DeliveryRecord | null>;
+  update(id: string, updater: (record: DeliveryRecord) => DeliveryRecord): Promise<DeliveryRecord | null>;
+  list(limit?: number): Promise<DeliveryRecord[]>; // Newest first
+  listDue(now: Date, limit?: number): Promise<DeliveryRecord[]>; // Pending with nextAttemptAt <= now, oldest first
+}
+
+// Maximum number of finished deliveries kept by backends that trim their history;
+// pending ones are never trimmed
+export const MAX_STORED_DELIVERIES = 200;
+
+export function isDue(record: DeliveryRecord, now: Date): boolean {
+  return record.status === 'pending' && Boolean(record.nextAttemptAt) && new Date(record.nextAttemptAt!) <= now;
+}
+
+// Keeps every pending delivery plus the newest finished ones, in insertion order
+export function trimDeliveries(records: DeliveryRecord[]): DeliveryRecord[] {
+  const finished = records.filter(r => r.status !== 'pending');
+  const dropped = new Set(finished.slice(0, Math.max(finished.length - MAX_STORED_DELIVERIES, 0)).map(r => r.id));
+  return records.filter(r => !dropped.has(r.id));
+}
@@ -0,0 +1,70 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDue, trimDeliveries, type DeliveryRecord, type DeliveryStore } from './delivery-store.js';
+
+// JSON file backend for local development (`vercel dev`, scripts, single-instance hosts)
+export class FileDeliveryStore implements DeliveryStore {
+  // Serializes read-modify-write cycles within this process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private read(): DeliveryRecord[] {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const data = JSON.parse(raw) as { deliveries?: DeliveryRecord[] };
+      return Array.isArray(data.deliveries) ? data.deliveries : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(records: DeliveryRecord[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ deliveries: trimDeliveries(records) }, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private exclusive<T>(fn: () => T): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  create(record: DeliveryRecord): Promise<void> {
+    return this.exclusive(() => {
+      const records = this.read().filter(r => r.id !== record.id);
+      records.push(record);
+      this.write(records);
+    });
+  }
+
+  get(id: string): Promise<DeliveryRecord | null> {
+    return this.exclusive(() => this.read().find(r => r.id === id) || null);
+  }
+
+  update(id: string, updater: (record: DeliveryRecord) => DeliveryRecord): Promise<DeliveryRecord | null> {
+    return this.exclusive(() => {
+      const records = this.read();
+      const index = records.findIndex(r => r.id === id);
+      if (index === -1) return null;
+
+      const updated = updater(records[index]);
+      records[index] = updated;
+      this.write(records);
+      return updated;
+    });
+  }
+
+  list(limit = 50): Promise<DeliveryRecord[]> {
+    return this.exclusive(() => this.read().slice(-limit).reverse()); // Newest first
+  }
+
+  listDue(now: Date, limit = 10): Promise<DeliveryRecord[]> {
+    return this.exclusive(() => this.read()
+      .filter(r => isDue(r, now))
+      .sort((a, b) => a.nextAttemptAt!.localeCompare(b.nextAttemptAt!))
+      .slice(0, limit));
+  }
+}
@@ -0,0 +1,227 @@
+import type { WebhookPayload } from '../types/index.js';
+import { encryptSecret, findTenant, webhookSigningKeysFor } from '../auth/index.js';
+import { loadSprintSnapshot, recordBlockedWebhook, recordJobUpdate, recordSprintSnapshot } from '../jobs/index.js';
+import { deliverWebhook, legacySignatureFor, webhookPolicyFor, WebhookBlockedError } from '../webhooks/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { redactSecrets } from '../utils/secrets.js';
+import { defaultDataPath } from '../utils/data-dir.js';
+import type { DeliveryAttempt, DeliveryRecord, DeliveryStatus, DeliveryStore } from './delivery-store.js';
+import { FileDeliveryStore } from './file-delivery-store.js';
+import { KvDeliveryStore } from './kv-delivery-store.js';
+import { MemoryDeliveryStore } from './memory-delivery-store.js';
+
+export type { DeliveryAttempt, DeliveryRecord, DeliveryStatus, DeliveryStore } from './delivery-store.js';
+export { MAX_STORED_DELIVERIES } from './delivery-store.js';
+export { FileDeliveryStore } from './file-delivery-store.js';
+export { KvDeliveryStore } from './kv-delivery-store.js';
+export { MemoryDeliveryStore } from './memory-delivery-store.js';
+
+let deliveryStore: DeliveryStore | null = null;
+
+// Resolve the webhook outbox backend from the environment:
+//   DELIVERY_STORE=kv     → KV_REST_API_URL + KV_REST_API_TOKEN (default when both are set)
+//   DELIVERY_STORE=file   → DELIVERY_STORE_PATH or .data/deliveries.json (default otherwise)
+//   DELIVERY_STORE=memory → process-local, lost on restart
+// On Vercel the filesystem is per-instance and wiped, so KV is required unless
+// DELIVERY_STORE picks another backend explicitly.
+export function getDeliveryStore(): DeliveryStore {
+  if (deliveryStore) return deliveryStore;
+
+  const kvUrl = getEnvVar('KV_REST_API_URL', false);
+  const kvToken = getEnvVar('KV_REST_API_TOKEN', false);
+  const configured = getEnvVar('DELIVERY_STORE', false);
+  const backend = configured || (kvUrl && kvToken ? 'kv' : 'file');
+
+  if (process.env.VERCEL && backend !== 'kv') {
+    if (!configured) {
+      throw new Error(
+        'The delivery outbox needs KV on Vercel: set KV_REST_API_URL and KV_REST_API_TOKEN, ' +
+          'or DELIVERY_STORE=file to accept losing queued deliveries',
+      );
+    }
+    console.warn(
+      `WARNING: DELIVERY_STORE=${backend} on Vercel keeps the outbox on one instance only; ` +
+        'queued deliveries are lost when it is recycled. Use KV for retries that survive.',
+    );
+  }
+
+  switch (backend) {
+    case 'kv':
+      deliveryStore = new KvDeliveryStore(getEnvVar('KV_REST_API_URL'), getEnvVar('KV_REST_API_TOKEN'));
+      break;
+    case 'memory':
+      deliveryStore = new MemoryDeliveryStore();
+      break;
+    case 'file':
+      deliveryStore = new FileDeliveryStore(getEnvVar('DELIVERY_STORE_PATH', false) || defaultDataPath('deliveries.json'));
+      break;
+    default:
+      throw new Error(`Unknown DELIVERY_STORE backend: ${backend}`);
+  }
+
+  return deliveryStore;
+}
+
+// Override the resolved store (tests, custom deployments)
+export function setDeliveryStore(store: DeliveryStore | null): void {
+  deliveryStore = store;
+}
+
+// ---- Retry schedule ----
+// 1 min after the failed sync, doubling up to every 2 hours: 12 attempts span about 10 hours
+
+const FIRST_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 2 * 60 * 60 * 1000;
+const MAX_HISTORY = 20;
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(FIRST_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+function maxAttempts(): number {
+  const configured = parseInt(getEnvVar('DELIVERY_MAX_ATTEMPTS', false), 10);
+  return Number.isInteger(configured) && configured > 0 ? configured : 12;
+}
+
+function errorMessage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
+}
+
+// The fields /api/deliveries serves: no URL query string, secret or sprint content
+export function deliverySummary(record: DeliveryRecord) {
+  const { webhookUrl: _url, webhookSecret: _secret, payload, history: _history, ...summary } = record;
+  return { ...summary, ticketCount: payload.metadata.ticketCount, syncTimestamp: payload.metadata.syncTimestamp };
+}
+
+export function deliveryDetail(record: DeliveryRecord) {
+  return { ...deliverySummary(record), history: record.history };
+}
+
+// Only an encrypted copy of a per-sync secret is stored. Without CONFIG_ENCRYPTION_KEY,
+// retries are signed with the tenant's or the server's keys instead.
+function storableSecret(webhookSecret?: string): string | undefined {
+  if (!webhookSecret) return undefined;
+  try {
+    return encryptSecret(webhookSecret);
+  } catch {
+    console.warn('Not storing the sync\'s webhookSecret for retries: CONFIG_ENCRYPTION_KEY is not set');
+    return undefined;
+  }
+}
+
+// Keeps a delivery that failed during the sync, so the analysis isn't lost while the
+// receiver is offline. Blocked targets go straight to dead. Returns null when the
+// outbox itself is unavailable.
+export async function queueFailedDelivery(input: {
+  id: string;
+  jobId: string;
+  listId: string;
+  tenantId?: string;
+  webhookUrl: string;
+  webhookSecret?: string;
+  payload: WebhookPayload;
+  error: unknown;
+}): Promise<DeliveryRecord | null> {
+  const now = new Date();
+  const dead = input.error instanceof WebhookBlockedError || maxAttempts() <= 1;
+  const url = new URL(input.webhookUrl);
+  const record: DeliveryRecord = {
+    id: input.id,
+    jobId: input.jobId,
+    listId: input.listId,
+    tenantId: input.tenantId,
+    webhookUrl: input.webhookUrl,
+    target: `${url.origin}${url.pathname}`,
+    webhookSecret: storableSecret(input.webhookSecret),
+    payload: input.payload,
+    status: dead ? 'dead' : 'pending',
+    attempts: 1,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    nextAttemptAt: dead ? undefined : new Date(now.getTime() + retryDelayMs(1)).toISOString(),
+    lastError: errorMessage(input.error),
+    history: [{ at: now.toISOString(), error: errorMessage(input.error) }],
+  };
+
+  try {
+    await getDeliveryStore().create(record);
+  } catch (error) {
+    console.error('Could not queue the failed webhook delivery:', errorMessage(error));
+    return null;
+  }
+  await recordJobUpdate(input.jobId, { deliveryStatus: record.status });
+  return record;
+}
+
+// A later sync of the list may already have been delivered; keep the newest snapshot
+async function recordSnapshotIfNewer(payload: WebhookPayload): Promise<void> {
+  const current = await loadSprintSnapshot(payload.metadata.listId);
+  if (!current || current.metadata.syncTimestamp <= payload.metadata.syncTimestamp) {
+    await recordSprintSnapshot({ tickets: payload.tickets, metadata: payload.metadata });
+  }
+}
+
+// One attempt, then the record moves to delivered, back to pending with the next
+// backoff, or to dead when it's out of attempts or the target is blocked
+async function attemptDelivery(record: DeliveryRecord, manual = false): Promise<DeliveryRecord> {
+  const tenant = record.tenantId ? findTenant(record.tenantId) : null;
+  const at = new Date();
+  let failure: unknown = null;
+
+  try {
+    await deliverWebhook(record.webhookUrl, record.payload, webhookSigningKeysFor(tenant, record.webhookSecret), {
+      policy: webhookPolicyFor(tenant),
+      legacy: legacySignatureFor(tenant),
+      retries: 1,
+      deliveryId: record.id,
+    });
+  } catch (error) {
+    failure = error;
+  }
+
+  const attempts = record.attempts + 1;
+  const entry: DeliveryAttempt = { at: at.toISOString(), ...(manual && { manual }), ...(failure !== null && { error: errorMessage(failure) }) };
+  const dead = failure instanceof WebhookBlockedError || attempts >= maxAttempts();
+  const status: DeliveryStatus = failure === null ? 'delivered' : dead ? 'dead' : 'pending';
+
+  const apply = (current: DeliveryRecord): DeliveryRecord => ({
+    ...current,
+    status,
+    attempts,
+    updatedAt: at.toISOString(),
+    nextAttemptAt: status === 'pending' ? new Date(at.getTime() + retryDelayMs(attempts)).toISOString() : undefined,
+    deliveredAt: status === 'delivered' ? at.toISOString() : current.deliveredAt,
+    lastError: entry.error,
+    history: [...current.history, entry].slice(-MAX_HISTORY),
+  });
+  const updated = (await getDeliveryStore().update(record.id, apply)) || apply(record);
+
+  if (failure instanceof WebhookBlockedError) {
+    await recordBlockedWebhook(record.jobId, failure.target, failure.reason);
+  }
+  if (status === 'delivered') {
+    await recordSnapshotIfNewer(record.payload);
+  }
+  await recordJobUpdate(record.jobId, {
+    deliveryStatus: status,
+    ...(status === 'delivered' && { webhookDelivered: true, status: 'success' as const }),
+  });
+  return updated;
+}
+
+// Runs every pending delivery whose next attempt is due, oldest first
+export async function processDueDeliveries(limit = 10): Promise<DeliveryRecord[]> {
+  const due = await getDeliveryStore().listDue(new Date(), limit);
+  const results: DeliveryRecord[] = [];
+  for (const record of due) {
+    results.push(await attemptDelivery(record));
+  }
+  return results;
+}
+
+// Sends a delivery now, whatever its status; dead ones get a fresh attempt. The
+// delivery id stays the same, so a receiver that already has it acknowledges without writing.
+export async function redeliver(id: string): Promise<DeliveryRecord | null> {
+  const record = await getDeliveryStore().get(id);
+  return record ? attemptDelivery(record, true) : null;
+}
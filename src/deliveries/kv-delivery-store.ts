@@ -0,0 +1,91 @@
+import { KvClient } from '../utils/kv.js';
+import { MAX_STORED_DELIVERIES, type DeliveryRecord, type DeliveryStore } from './delivery-store.js';
+
+// Redis-over-REST adapter (Vercel KV / Upstash). Deliveries are stored as JSON strings
+// under `${prefix}:delivery:<id>`, with a list `${prefix}:deliveries` of ids, newest first.
+// Pending ones are also in the sorted set `${prefix}:deliveries:due`, scored by nextAttemptAt.
+export class KvDeliveryStore implements DeliveryStore {
+  private readonly kv: KvClient;
+
+  constructor(url: string, token: string, private readonly prefix = 'sprint-pilot') {
+    this.kv = new KvClient(url, token);
+  }
+
+  private recordKey(id: string): string {
+    return `${this.prefix}:delivery:${id}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.prefix}:deliveries`;
+  }
+
+  private get dueKey(): string {
+    return `${this.prefix}:deliveries:due`;
+  }
+
+  private async save(record: DeliveryRecord): Promise<void> {
+    await this.kv.command('SET', this.recordKey(record.id), JSON.stringify(record));
+    if (record.status === 'pending' && record.nextAttemptAt) {
+      await this.kv.command('ZADD', this.dueKey, new Date(record.nextAttemptAt).getTime(), record.id);
+    } else {
+      await this.kv.command('ZREM', this.dueKey, record.id);
+    }
+  }
+
+  async create(record: DeliveryRecord): Promise<void> {
+    await this.save(record);
+    await this.kv.command('LPUSH', this.indexKey, record.id);
+    await this.trim();
+  }
+
+  // Past the newest MAX_STORED_DELIVERIES, finished deliveries are deleted along with their
+  // payloads and secrets. Pending ones stay listed until a later trim finds them finished.
+  private async trim(): Promise<void> {
+    const ids = await this.kv.command<string[]>('LRANGE', this.indexKey, MAX_STORED_DELIVERIES, -1);
+    if (!ids || ids.length === 0) return;
+
+    const values = await this.kv.command<(string | null)[]>('MGET', ...ids.map(id => this.recordKey(id)));
+    const finished = ids.filter((_, i) => !values[i] || (JSON.parse(values[i]!) as DeliveryRecord).status !== 'pending');
+    if (finished.length === 0) return;
+
+    await this.kv.command('DEL', ...finished.map(id => this.recordKey(id)));
+    for (const id of finished) {
+      await this.kv.command('LREM', this.indexKey, 0, id);
+    }
+  }
+
+  async get(id: string): Promise<DeliveryRecord | null> {
+    const raw = await this.kv.command<string | null>('GET', this.recordKey(id));
+    return raw ? (JSON.parse(raw) as DeliveryRecord) : null;
+  }
+
+  // Last write wins; two processors racing on one delivery at worst send it twice,
+  // and receivers drop the duplicate by its delivery id
+  async update(id: string, updater: (record: DeliveryRecord) => DeliveryRecord): Promise<DeliveryRecord | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const updated = updater(existing);
+    await this.save(updated);
+    return updated;
+  }
+
+  async list(limit = 50): Promise<DeliveryRecord[]> {
+    const ids = await this.kv.command<string[]>('LRANGE', this.indexKey, 0, limit - 1);
+    return this.getMany(ids);
+  }
+
+  async listDue(now: Date, limit = 10): Promise<DeliveryRecord[]> {
+    const ids = await this.kv.command<string[]>('ZRANGEBYSCORE', this.dueKey, 0, now.getTime(), 'LIMIT', 0, limit);
+    return this.getMany(ids);
+  }
+
+  private async getMany(ids: string[] | null): Promise<DeliveryRecord[]> {
+    if (!ids || ids.length === 0) return [];
+
+    const values = await this.kv.command<(string | null)[]>('MGET', ...ids.map(id => this.recordKey(id)));
+    return values
+      .filter((value): value is string => Boolean(value))
+      .map(value => JSON.parse(value) as DeliveryRecord);
+  }
+}
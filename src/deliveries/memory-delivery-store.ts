@@ -0,0 +1,34 @@
+import { isDue, trimDeliveries, type DeliveryRecord, type DeliveryStore } from './delivery-store.js';
+
+// Process-local outbox, lost on every cold start. Useful for tests and as a last resort.
+export class MemoryDeliveryStore implements DeliveryStore {
+  private records: DeliveryRecord[] = [];
+
+  async create(record: DeliveryRecord): Promise<void> {
+    this.records = trimDeliveries([...this.records.filter(r => r.id !== record.id), record]);
+  }
+
+  async get(id: string): Promise<DeliveryRecord | null> {
+    return this.records.find(r => r.id === id) || null;
+  }
+
+  async update(id: string, updater: (record: DeliveryRecord) => DeliveryRecord): Promise<DeliveryRecord | null> {
+    const index = this.records.findIndex(r => r.id === id);
+    if (index === -1) return null;
+
+    const updated = updater(this.records[index]);
+    this.records[index] = updated;
+    return updated;
+  }
+
+  async list(limit = 50): Promise<DeliveryRecord[]> {
+    return this.records.slice(-limit).reverse(); // Newest first
+  }
+
+  async listDue(now: Date, limit = 10): Promise<DeliveryRecord[]> {
+    return this.records
+      .filter(r => isDue(r, now))
+      .sort((a, b) => a.nextAttemptAt!.localeCompare(b.nextAttemptAt!))
+      .slice(0, limit);
+  }
+}
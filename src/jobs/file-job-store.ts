@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SprintData } from '../types/index.js';
+import { MAX_STORED_JOBS, type JobRecord, type JobStore } from './job-store.js';
+
+// JSON file backend for local development (`vercel dev`, scripts, single-instance hosts).
+// List snapshots live next to the jobs file, in snapshots/<listId>.json.
+export class FileJobStore implements JobStore {
+  // Serializes read-modify-write cycles within this process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  private read(): JobRecord[] {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const data = JSON.parse(raw) as { jobs?: JobRecord[] };
+      return Array.isArray(data.jobs) ? data.jobs : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private snapshotPath(listId: string): string {
+    return path.join(path.dirname(this.filePath), 'snapshots', `${encodeURIComponent(listId)}.json`);
+  }
+
+  private write(jobs: JobRecord[]): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify({ jobs: jobs.slice(-MAX_STORED_JOBS) }, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  private exclusive<T>(fn: () => T): Promise<T> {
+    const next = this.queue.then(fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  create(job: JobRecord): Promise<void> {
+    return this.exclusive(() => {
+      const jobs = this.read().filter(j => j.id !== job.id);
+      jobs.push(job);
+      this.write(jobs);
+    });
+  }
+
+  get(id: string): Promise<JobRecord | null> {
+    return this.exclusive(() => this.read().find(j => j.id === id) || null);
+  }
+
+  update(id: string, updater: (job: JobRecord) => JobRecord): Promise<JobRecord | null> {
+    return this.exclusive(() => {
+      const jobs = this.read();
+      const index = jobs.findIndex(j => j.id === id);
+      if (index === -1) return null;
+
+      const updated = updater(jobs[index]);
+      jobs[index] = updated;
+      this.write(jobs);
+      return updated;
+    });
+  }
+
+  list(limit = 50): Promise<JobRecord[]> {
+    return this.exclusive(() => this.read().slice(-limit).reverse()); // Newest first
+  }
+
+  saveSnapshot(snapshot: SprintData): Promise<void> {
+    return this.exclusive(() => {
+      const filePath = this.snapshotPath(snapshot.metadata.listId);
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(snapshot), 'utf-8');
+      fs.renameSync(tmpPath, filePath);
+    });
+  }
+
+  getSnapshot(listId: string): Promise<SprintData | null> {
+    return this.exclusive(() => {
+      try {
+        return JSON.parse(fs.readFileSync(this.snapshotPath(listId), 'utf-8')) as SprintData;
+      } catch {
+        return null;
+      }
+    });
+  }
+}
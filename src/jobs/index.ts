@@ -0,0 +1,191 @@
+import type { SprintData } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { redactSecrets } from '../utils/secrets.js';
+import { defaultDataPath } from '../utils/data-dir.js';
+import type { JobRecord, JobStatus, JobStepRecord, JobStore } from './job-store.js';
+import { FileJobStore } from './file-job-store.js';
+import { KvJobStore } from './kv-job-store.js';
+import { MemoryJobStore } from './memory-job-store.js';
+
+export type { BlockedWebhookRecord, JobRecord, JobStepRecord, JobStore, JobStatus } from './job-store.js';
+export { FileJobStore } from './file-job-store.js';
+export { KvJobStore } from './kv-job-store.js';
+export { MemoryJobStore } from './memory-job-store.js';
+export { MAX_STORED_JOBS } from './job-store.js';
+
+let jobStore: JobStore | null = null;
+
+// Resolve the job store backend from the environment:
+//   JOB_STORE=kv     → KV_REST_API_URL + KV_REST_API_TOKEN (default when both are set)
+//   JOB_STORE=file   → JOB_STORE_PATH or .data/jobs.json (default otherwise)
+//   JOB_STORE=memory → process-local, lost on restart
+// On Vercel each instance has its own temp dir, wiped on cold start, so KV is required
+// unless JOB_STORE picks another backend explicitly.
+export function getJobStore(): JobStore {
+  if (jobStore) return jobStore;
+
+  const kvUrl = getEnvVar('KV_REST_API_URL', false);
+  const kvToken = getEnvVar('KV_REST_API_TOKEN', false);
+  const configured = getEnvVar('JOB_STORE', false);
+  const backend = configured || (kvUrl && kvToken ? 'kv' : 'file');
+
+  if (process.env.VERCEL && backend !== 'kv') {
+    if (!configured) {
+      throw new Error(
+        'The job store needs KV on Vercel: set KV_REST_API_URL and KV_REST_API_TOKEN, ' +
+          'or JOB_STORE=file to accept partial job history',
+      );
+    }
+    console.warn(
+      `WARNING: JOB_STORE=${backend} on Vercel keeps job history on one instance only; ` +
+        '/api/jobs shows partial history and it is lost when the instance is recycled. Use KV.',
+    );
+  }
+
+  switch (backend) {
+    case 'kv':
+      jobStore = new KvJobStore(getEnvVar('KV_REST_API_URL'), getEnvVar('KV_REST_API_TOKEN'));
+      break;
+    case 'memory':
+      jobStore = new MemoryJobStore();
+      break;
+    case 'file':
+      jobStore = new FileJobStore(getEnvVar('JOB_STORE_PATH', false) || defaultDataPath('jobs.json'));
+      break;
+    default:
+      throw new Error(`Unknown JOB_STORE backend: ${backend}`);
+  }
+
+  return jobStore;
+}
+
+// Override the resolved store (tests, custom deployments)
+export function setJobStore(store: JobStore | null): void {
+  jobStore = store;
+}
+
+// ---- Recording helpers used by the sprint-sync workflow ----
+// Job history is best-effort: storage failures are logged and never fail a sync.
+
+async function safely(action: string, fn: (store: JobStore) => Promise<unknown>): Promise<void> {
+  try {
+    await fn(getJobStore());
+  } catch (error) {
+    console.warn(`Job store ${action} failed:`, error instanceof Error ? error.message : error);
+  }
+}
+
+// Job records are served by /api/jobs, so known credentials are scrubbed first
+function errorMessage(error: unknown): string {
+  return redactSecrets(error instanceof Error ? error.message : String(error));
+}
+
+export async function recordJobStart(id: string, listId: string, tenantId?: string): Promise<void> {
+  await safely('create', store => store.create({
+    id,
+    timestamp: new Date().toISOString(),
+    listId,
+    tenantId,
+    ticketCount: 0,
+    status: 'running',
+    steps: [],
+  }));
+}
+
+export async function recordJobUpdate(id: string, patch: Partial<Omit<JobRecord, 'id' | 'steps'>>): Promise<void> {
+  await safely('update', store => store.update(id, job => ({ ...job, ...patch })));
+}
+
+export async function recordJobCompletion(id: string, ticketCount: number, status: JobStatus = 'success'): Promise<void> {
+  const finishedAt = new Date();
+  await safely('update', store => store.update(id, job => ({
+    ...job,
+    ticketCount,
+    status,
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - new Date(job.timestamp).getTime(),
+  })));
+}
+
+export async function recordJobFailure(id: string, error: unknown): Promise<void> {
+  const finishedAt = new Date();
+  await safely('update', store => store.update(id, job => ({
+    ...job,
+    status: 'failed',
+    error: errorMessage(error),
+    finishedAt: finishedAt.toISOString(),
+    durationMs: finishedAt.getTime() - new Date(job.timestamp).getTime(),
+  })));
+}
+
+export async function recordBlockedWebhook(id: string, target: string, reason: string): Promise<void> {
+  const entry = { target: redactSecrets(target), reason: redactSecrets(reason), at: new Date().toISOString() };
+  await safely('update', store => store.update(id, job => ({ ...job, blockedWebhooks: [...(job.blockedWebhooks || []), entry] })));
+}
+
+// Descriptions and prompt context are left out; the diff only needs ids, statuses, priorities and scores
+export async function recordSprintSnapshot(snapshot: SprintData): Promise<void> {
+  const compact: SprintData = {
+    metadata: snapshot.metadata,
+    tickets: snapshot.tickets.map(({ ticket, analysis }) => ({
+      ticket: { ...ticket, description: undefined, custom_fields: undefined },
+      analysis: { ...analysis, contextFiles: undefined },
+    })),
+  };
+  await safely('snapshot save', store => store.saveSnapshot(compact));
+}
+
+export async function loadSprintSnapshot(listId: string): Promise<SprintData | null> {
+  try {
+    return await getJobStore().getSnapshot(listId);
+  } catch (error) {
+    console.warn('Job store snapshot load failed:', errorMessage(error));
+    return null;
+  }
+}
+
+function upsertStep(job: JobRecord, step: JobStepRecord): JobRecord {
+  const steps = job.steps.filter(s => s.id !== step.id);
+  return { ...job, steps: [...steps, step] };
+}
+
+// Run a workflow step while recording its timing, ticket count and failure reason.
+// Errors are recorded against both the step and the job, then rethrown.
+export async function trackJobStep<T>(
+  jobId: string,
+  stepId: string,
+  fn: () => Promise<T>,
+  countTickets?: (result: T) => number,
+): Promise<T> {
+  const startedAt = new Date();
+  const running: JobStepRecord = { id: stepId, status: 'running', startedAt: startedAt.toISOString() };
+  await safely('update', store => store.update(jobId, job => upsertStep(job, running)));
+
+  try {
+    const result = await fn();
+    const finishedAt = new Date();
+    const ticketCount = countTickets?.(result);
+    await safely('update', store => store.update(jobId, job => upsertStep(
+      ticketCount !== undefined ? { ...job, ticketCount } : job,
+      {
+        ...running,
+        status: 'success',
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        ticketCount,
+      },
+    )));
+    return result;
+  } catch (error) {
+    const finishedAt = new Date();
+    await safely('update', store => store.update(jobId, job => upsertStep(job, {
+      ...running,
+      status: 'failed',
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      error: errorMessage(error),
+    })));
+    await recordJobFailure(jobId, error);
+    throw error;
+  }
+}
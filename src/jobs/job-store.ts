@@ -0,0 +1,56 @@
+import type { SprintData } from '../types/index.js';
+import type { DeliveryStatus } from '../deliveries/delivery-store.js';
+
+// Job history types and the storage interface shared by all backends
+
+// undelivered: the sync finished but its webhook went to the outbox; success once delivered
+export type JobStatus = 'running' | 'success' | 'undelivered' | 'failed';
+
+export interface JobStepRecord {
+  id: string;
+  status: JobStatus;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  ticketCount?: number;
+  error?: string;
+}
+
+// A webhook target the target policy refused
+export interface BlockedWebhookRecord {
+  target: string; // Origin and path
+  reason: string;
+  at: string;
+}
+
+export interface JobRecord {
+  id: string;
+  timestamp: string;
+  listId: string;
+  tenantId?: string; // Tenant of the API key that started the sync; /api/jobs only shows it to them
+  ticketCount: number;
+  status: JobStatus;
+  error?: string;
+  finishedAt?: string;
+  durationMs?: number;
+  webhookDelivered?: boolean;
+  deliveryId?: string; // X-Sprint-Pilot-Delivery of the webhook, for matching receiver logs
+  deliveryStatus?: DeliveryStatus; // Set once the first delivery failed and the outbox took over
+  cachedTickets?: number;
+  freshTickets?: number;
+  blockedWebhooks?: BlockedWebhookRecord[];
+  steps: JobStepRecord[];
+}
+
+export interface JobStore {
+  create(job: JobRecord): Promise<void>;
+  get(id: string): Promise<JobRecord | null>;
+  update(id: string, updater: (job: JobRecord) => JobRecord): Promise<JobRecord | null>;
+  list(limit?: number): Promise<JobRecord[]>;
+  // Last delivered sync of each list, for "changes since last sync"
+  saveSnapshot(snapshot: SprintData): Promise<void>;
+  getSnapshot(listId: string): Promise<SprintData | null>;
+}
+
+// Maximum number of jobs kept by backends that trim their history
+export const MAX_STORED_JOBS = 200;
@@ -0,0 +1,72 @@
+import { KvClient } from '../utils/kv.js';
+import type { SprintData } from '../types/index.js';
+import { MAX_STORED_JOBS, type JobRecord, type JobStore } from './job-store.js';
+
+// Redis-over-REST adapter (Vercel KV / Upstash). Jobs are stored as JSON strings
+// under `${prefix}:job:<id>`, with a capped list `${prefix}:jobs` of ids, newest first.
+// Jobs trimmed off the list are deleted with it.
+// Each list's last sync is kept under `${prefix}:snapshot:<listId>`.
+export class KvJobStore implements JobStore {
+  private readonly kv: KvClient;
+
+  constructor(url: string, token: string, private readonly prefix = 'sprint-pilot') {
+    this.kv = new KvClient(url, token);
+  }
+
+  private jobKey(id: string): string {
+    return `${this.prefix}:job:${id}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.prefix}:jobs`;
+  }
+
+  private snapshotKey(listId: string): string {
+    return `${this.prefix}:snapshot:${listId}`;
+  }
+
+  async create(job: JobRecord): Promise<void> {
+    await this.kv.command('SET', this.jobKey(job.id), JSON.stringify(job));
+    await this.kv.command('LPUSH', this.indexKey, job.id);
+
+    const trimmed = await this.kv.command<string[]>('LRANGE', this.indexKey, MAX_STORED_JOBS, -1);
+    if (trimmed && trimmed.length > 0) {
+      await this.kv.command('DEL', ...trimmed.map(id => this.jobKey(id)));
+    }
+    await this.kv.command('LTRIM', this.indexKey, 0, MAX_STORED_JOBS - 1);
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    const raw = await this.kv.command<string | null>('GET', this.jobKey(id));
+    return raw ? (JSON.parse(raw) as JobRecord) : null;
+  }
+
+  // Last write wins: a single workflow run is the only writer for its job
+  async update(id: string, updater: (job: JobRecord) => JobRecord): Promise<JobRecord | null> {
+    const existing = await this.get(id);
+    if (!existing) return null;
+
+    const updated = updater(existing);
+    await this.kv.command('SET', this.jobKey(id), JSON.stringify(updated));
+    return updated;
+  }
+
+  async list(limit = 50): Promise<JobRecord[]> {
+    const ids = await this.kv.command<string[]>('LRANGE', this.indexKey, 0, limit - 1);
+    if (!ids || ids.length === 0) return [];
+
+    const values = await this.kv.command<(string | null)[]>('MGET', ...ids.map(id => this.jobKey(id)));
+    return values
+      .filter((value): value is string => Boolean(value))
+      .map(value => JSON.parse(value) as JobRecord);
+  }
+
+  async saveSnapshot(snapshot: SprintData): Promise<void> {
+    await this.kv.command('SET', this.snapshotKey(snapshot.metadata.listId), JSON.stringify(snapshot));
+  }
+
+  async getSnapshot(listId: string): Promise<SprintData | null> {
+    const raw = await this.kv.command<string | null>('GET', this.snapshotKey(listId));
+    return raw ? (JSON.parse(raw) as SprintData) : null;
+  }
+}
@@ -0,0 +1,40 @@
+import type { SprintData } from '../types/index.js';
+import { MAX_STORED_JOBS, type JobRecord, type JobStore } from './job-store.js';
+
+// Process-local store, lost on every cold start. Useful for tests and as a last resort.
+export class MemoryJobStore implements JobStore {
+  private jobs: JobRecord[] = [];
+  private snapshots = new Map<string, SprintData>();
+
+  async create(job: JobRecord): Promise<void> {
+    this.jobs.push(job);
+    if (this.jobs.length > MAX_STORED_JOBS) {
+      this.jobs = this.jobs.slice(-MAX_STORED_JOBS);
+    }
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    return this.jobs.find(j => j.id === id) || null;
+  }
+
+  async update(id: string, updater: (job: JobRecord) => JobRecord): Promise<JobRecord | null> {
+    const index = this.jobs.findIndex(j => j.id === id);
+    if (index === -1) return null;
+
+    const updated = updater(this.jobs[index]);
+    this.jobs[index] = updated;
+    return updated;
+  }
+
+  async list(limit = 50): Promise<JobRecord[]> {
+    return this.jobs.slice(-limit).reverse(); // Newest first
+  }
+
+  async saveSnapshot(snapshot: SprintData): Promise<void> {
+    this.snapshots.set(snapshot.metadata.listId, snapshot);
+  }
+
+  async getSnapshot(listId: string): Promise<SprintData | null> {
+    return this.snapshots.get(listId) || null;
+  }
+}
@@ -0,0 +1,118 @@
+import { generateObject } from 'ai';
+import {
+  LlmTicketAnalysisSchema,
+  type CodebaseMap,
+  type LlmConfig,
+  type TicketAnalysis,
+} from '../types/index.js';
+import { validateAffectedFiles, withDependentFiles, withValidatedFiles } from '../analysis/index.js';
+import { resolveModel, resolveModelSpec } from './providers.js';
+
+const TriageSchema = LlmTicketAnalysisSchema.pick({
+  qualityScore: true,
+  qualityGaps: true,
+  complexityTag: true,
+});
+
+const ApproachSchema = LlmTicketAnalysisSchema.pick({
+  affectedFiles: true,
+  suggestedApproach: true,
+  estimate: true,
+});
+
+export interface GenerateAnalysisOptions {
+  system: string;
+  prompt: string;
+  llm?: LlmConfig;
+  codebaseMap?: CodebaseMap; // When set, affectedFiles are validated against the map
+  relatedFiles?: string[]; // Retrieved files outside the map that also count as valid
+}
+
+// Model ids used for an analysis, e.g. for cache keys and logging
+export function analysisModelIds(llm?: LlmConfig): { triage: string; approach: string } {
+  return {
+    triage: resolveModelSpec('triage', llm),
+    approach: resolveModelSpec('approach', llm),
+  };
+}
+
+// When triage and approach resolve to the same model this is a single call; otherwise
+// the triage model scores the ticket and the approach model maps files and suggests an
+// implementation, seeing the triage result.
+async function runAnalysis(system: string, prompt: string, llm?: LlmConfig): Promise<TicketAnalysis> {
+  const triageModel = resolveModel('triage', llm);
+  const approachModel = resolveModel('approach', llm);
+
+  if (triageModel.id === approachModel.id) {
+    const { object } = await generateObject({
+      model: triageModel.model,
+      schema: LlmTicketAnalysisSchema,
+      system,
+      prompt,
+      temperature: 0.3, // Lower temperature for more consistent analysis
+    });
+    return { ...object, estimate: { ...object.estimate, source: 'llm' }, source: 'llm' };
+  }
+
+  const { object: triage } = await generateObject({
+    model: triageModel.model,
+    schema: TriageSchema,
+    system,
+    prompt: `${prompt}\n\nFor this step, only provide: qualityScore, qualityGaps, complexityTag.`,
+    temperature: 0.3,
+  });
+
+  const { object: approach } = await generateObject({
+    model: approachModel.model,
+    schema: ApproachSchema,
+    system,
+    prompt: `${prompt}\n\nTriage result: quality ${triage.qualityScore}/5, classified as ${triage.complexityTag}.
+For this step, only provide: affectedFiles, suggestedApproach, estimate.`,
+    temperature: 0.3,
+  });
+
+  return { ...triage, ...approach, estimate: { ...approach.estimate, source: 'llm' }, source: 'llm' };
+}
+
+// Correct or drop unknown affectedFiles, re-prompting once if more than half were invalid
+async function validateAnalysis(
+  analysis: TicketAnalysis,
+  options: GenerateAnalysisOptions & { codebaseMap: CodebaseMap },
+): Promise<TicketAnalysis> {
+  const { system, prompt, llm, codebaseMap, relatedFiles } = options;
+  const validation = validateAffectedFiles(analysis.affectedFiles, codebaseMap, relatedFiles);
+  if (validation.invalidCount * 2 <= analysis.affectedFiles.length) {
+    return withValidatedFiles(analysis, validation);
+  }
+
+  const invalid = [
+    ...validation.fileMatches.flatMap(match => (match.correctedFrom ? [match.correctedFrom] : [])),
+    ...validation.hallucinatedFiles,
+  ];
+  const retryPrompt = `${prompt}
+
+Your previous answer listed affectedFiles that do not exist in the codebase: ${invalid.join(', ')}.
+Only use exact file paths from the codebase structure in the prompt. Leave affectedFiles empty if nothing matches.`;
+
+  try {
+    const retried = await runAnalysis(system, retryPrompt, llm);
+    const retryValidation = validateAffectedFiles(retried.affectedFiles, codebaseMap, relatedFiles);
+    return withValidatedFiles(retried, retryValidation);
+  } catch (error) {
+    console.warn('Re-prompt for affected files failed, keeping the first analysis:', error instanceof Error ? error.message : error);
+    return withValidatedFiles(analysis, validation);
+  }
+}
+
+// Run a ticket analysis. With a codebase map, affectedFiles are validated against it
+// and the files depending on them (blast radius) are recorded.
+export async function generateTicketAnalysis(options: GenerateAnalysisOptions): Promise<TicketAnalysis> {
+  const { system, prompt, llm, codebaseMap } = options;
+  const analysis = await runAnalysis(system, prompt, llm);
+  if (!codebaseMap) {
+    return analysis;
+  }
+
+  const validated = await validateAnalysis(analysis, { ...options, codebaseMap });
+  return withDependentFiles(validated, codebaseMap);
+}
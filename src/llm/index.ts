@@ -0,0 +1,5 @@
+export { resolveModel, resolveModelSpec, registerLlmProvider } from './providers.js';
+export type { LlmProviderFactory, ResolvedModel } from './providers.js';
+export { createMockModel } from './mock-model.js';
+export { generateTicketAnalysis, analysisModelIds } from './generate-analysis.js';
+export type { GenerateAnalysisOptions } from './generate-analysis.js';
@@ -0,0 +1,79 @@
+import type { LanguageModel } from 'ai';
+
+// Deterministic offline model for tests and demos. It ignores the schema it is
+// asked for and always answers with a full TicketAnalysis-shaped JSON object;
+// callers validating a subset (per-stage schemas) simply ignore the extra keys.
+
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+
+const FIX_KEYWORDS = /\b(bug|fix|broken|crash|error|regression|typo)\b/i;
+
+function promptText(options: CallOptions): string {
+  return options.prompt
+    .map(message => typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => (part.type === 'text' ? part.text : '')).join(''))
+    .join('\n');
+}
+
+// Extract the ticket section so the system prompt doesn't influence the result
+function ticketText(prompt: string): string {
+  const match = prompt.match(/Title:[\s\S]*?(?=\n(?:CODEBASE|URL:)|$)/);
+  return match ? match[0] : prompt;
+}
+
+function mockAnalysis(modelId: string, prompt: string) {
+  const ticket = ticketText(prompt);
+  const hasDescription = !/Description: (No description|$)/m.test(ticket);
+  const hasCriteria = /acceptance criteria/i.test(ticket);
+
+  const qualityGaps: string[] = [];
+  if (!hasDescription) qualityGaps.push('No description provided');
+  if (!hasCriteria) qualityGaps.push('No acceptance criteria');
+
+  return {
+    qualityScore: Math.max(1, 5 - qualityGaps.length * 2),
+    qualityGaps,
+    affectedFiles: [],
+    complexityTag: FIX_KEYWORDS.test(ticket) ? 'fix' : 'feature',
+    estimate: { points: FIX_KEYWORDS.test(ticket) ? 2 : 5, confidence: 0.5 },
+    suggestedApproach: `Mock analysis from ${modelId}; configure a real LLM provider for implementation guidance.`,
+  };
+}
+
+export function createMockModel(modelId = 'mock-analyst'): LanguageModel {
+  const generate = (options: CallOptions) => {
+    const prompt = promptText(options);
+    const text = JSON.stringify(mockAnalysis(modelId, prompt));
+    return {
+      text,
+      finishReason: 'stop' as const,
+      usage: { promptTokens: Math.ceil(prompt.length / 4), completionTokens: Math.ceil(text.length / 4) },
+      rawCall: { rawPrompt: options.prompt, rawSettings: {} },
+    };
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'mock',
+    modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: false,
+
+    async doGenerate(options) {
+      return generate(options);
+    },
+
+    async doStream(options) {
+      const { text, finishReason, usage, rawCall } = generate(options);
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue({ type: 'text-delta', textDelta: text });
+          controller.enqueue({ type: 'finish', finishReason, usage });
+          controller.close();
+        },
+      });
+      return { stream, rawCall };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { LanguageModel } from 'ai';
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { azure } from '@ai-sdk/azure';
+import type { LlmConfig, LlmStage } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { createMockModel } from './mock-model.js';
+
+// Model specs are "provider:model" (e.g. "anthropic:claude-3-5-haiku-latest") or a bare
+// model id, which uses the configured default provider.
+
+export type LlmProviderFactory = (modelId: string) => LanguageModel;
+
+export interface ResolvedModel {
+  id: string; // "provider:model"
+  model: LanguageModel;
+}
+
+const DEFAULT_PROVIDER = 'openai';
+
+const DEFAULT_MODELS: Record<string, string> = {
+  'openai': 'gpt-4o',
+  'anthropic': 'claude-3-5-sonnet-latest',
+  'azure': 'gpt-4o', // Azure deployment name
+  'openai-compatible': 'llama3.1',
+  'mock': 'mock-analyst',
+};
+
+const providers = new Map<string, LlmProviderFactory>([
+  ['openai', modelId => openai(modelId)],
+  ['anthropic', modelId => anthropic(modelId)],
+  ['azure', modelId => azure(modelId)],
+  // Any OpenAI-compatible endpoint, e.g. Ollama at http://localhost:11434/v1
+  ['openai-compatible', modelId => createOpenAI({
+    name: 'openai-compatible',
+    baseURL: getEnvVar('OPENAI_COMPATIBLE_BASE_URL', false) || 'http://localhost:11434/v1',
+    apiKey: getEnvVar('OPENAI_COMPATIBLE_API_KEY', false) || 'not-needed',
+    compatibility: 'compatible',
+  })(modelId)],
+  ['mock', modelId => createMockModel(modelId)],
+]);
+
+// Add or replace a provider (custom gateways, test doubles)
+export function registerLlmProvider(id: string, factory: LlmProviderFactory, defaultModel?: string): void {
+  providers.set(id, factory);
+  if (defaultModel) {
+    DEFAULT_MODELS[id] = defaultModel;
+  }
+}
+
+function parseModelSpec(spec: string, fallbackProvider: string): { provider: string; modelId: string } {
+  const separator = spec.indexOf(':');
+  if (separator > 0 && providers.has(spec.slice(0, separator))) {
+    return { provider: spec.slice(0, separator), modelId: spec.slice(separator + 1) };
+  }
+  return { provider: fallbackProvider, modelId: spec };
+}
+
+// Model spec for a stage, most specific first:
+//   config.stages[stage] → config.model → LLM_<STAGE>_MODEL → LLM_MODEL → provider default
+export function resolveModelSpec(stage: LlmStage, config?: LlmConfig): string {
+  const provider = config?.provider || getEnvVar('LLM_PROVIDER', false) || DEFAULT_PROVIDER;
+
+  const spec = config?.stages?.[stage]
+    || config?.model
+    || getEnvVar(`LLM_${stage.toUpperCase()}_MODEL`, false)
+    || getEnvVar('LLM_MODEL', false)
+    || DEFAULT_MODELS[provider]
+    || '';
+
+  const parsed = parseModelSpec(spec, provider);
+  if (!parsed.modelId) {
+    throw new Error(`No model configured for LLM provider "${provider}". Set LLM_MODEL.`);
+  }
+  return `${parsed.provider}:${parsed.modelId}`;
+}
+
+export function resolveModel(stage: LlmStage, config?: LlmConfig): ResolvedModel {
+  const id = resolveModelSpec(stage, config);
+  const { provider, modelId } = parseModelSpec(id, DEFAULT_PROVIDER);
+
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown LLM provider "${provider}". Available: ${Array.from(providers.keys()).join(', ')}`);
+  }
+
+  return { id, model: factory(modelId) };
+}
@@ -0,0 +1,67 @@
+import type {
+  AnalyzedTicket,
+  AssigneePlan,
+  PlanBucket,
+  PlanningOptions,
+  SortStrategy,
+  SortWeights,
+  SprintPlan,
+} from '../types/index.js';
+import { orderSprint } from './dependencies.js';
+import { primaryAssignee } from './ticket-order.js';
+
+// Splits each assignee's tickets into committed (fits capacity), stretch (fits
+// capacity plus the stretch ratio) and backlog, in sprint order (blockers first)
+
+// Unestimated tickets count as one point so they still take up room
+function ticketPoints(ticket: AnalyzedTicket): number {
+  return ticket.analysis.estimate?.points ?? 1;
+}
+
+export function planSprint(
+  tickets: AnalyzedTicket[],
+  options: PlanningOptions,
+  sortBy?: SortStrategy,
+  sortWeights?: SortWeights,
+): SprintPlan {
+  const stretchRatio = options.stretchRatio ?? 0.2;
+  const plans = new Map<string, AssigneePlan>();
+
+  const planFor = (assignee: string): AssigneePlan => {
+    let plan = plans.get(assignee);
+    if (!plan) {
+      // No configured capacity means nothing can be committed
+      const capacity = options.capacity[assignee] ?? 0;
+      plan = { assignee, capacity, assigned: 0, committed: 0, stretch: 0, backlog: 0, overAllocated: false };
+      plans.set(assignee, plan);
+    }
+    return plan;
+  };
+
+  Object.keys(options.capacity).forEach(planFor);
+
+  const planned = orderSprint(tickets, sortBy, sortWeights).tickets.map(ticket => {
+    const assignee = primaryAssignee(ticket);
+    const points = ticketPoints(ticket);
+    const plan = planFor(assignee);
+
+    // Backlogged points use no capacity, so a later, smaller ticket can still fit
+    plan.assigned += points;
+    let bucket: PlanBucket = 'backlog';
+    if (plan.committed + points <= plan.capacity) {
+      bucket = 'committed';
+    } else if (plan.committed + plan.stretch + points <= plan.capacity * (1 + stretchRatio)) {
+      bucket = 'stretch';
+    }
+    plan[bucket] += points;
+
+    return { taskId: ticket.ticket.id, assignee, points, bucket };
+  });
+
+  const assignees = Array.from(plans.values()).map(plan => ({
+    ...plan,
+    overAllocated: plan.assigned > plan.capacity,
+  }));
+
+  return { assignees, tickets: planned };
+}
@@ -0,0 +1,215 @@
+import type { AnalyzedTicket, FileConflict, SortStrategy, SortWeights, SprintDependencies, TicketDependency } from '../types/index.js';
+import { sortTicketsBy } from './ticket-order.js';
+
+// Finds which tickets in a sprint block each other (ClickUp dependencies and
+// "blocked by #id" mentions), are linked, or touch the same files, and orders
+// the sprint so blockers come first
+
+// Text just before a mention that makes this ticket wait on the mentioned one, or block it
+const DEPENDS_ON_PATTERN = /\b(blocked by|depends on|dependent on|waiting (on|for)|requires|needs|after)\b[^.\n]*$/i;
+const BLOCKS_PATTERN = /\b(blocks|blocking|unblocks|before|prerequisite (for|of)|required (by|for))\b[^.\n]*$/i;
+const MENTION_CONTEXT = 60;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Raw task ids need a "#", "CU-" or URL prefix; custom ids ("DEV-123") are distinctive on their own
+function mentionPattern(ticket: AnalyzedTicket): RegExp {
+  const alternatives = [`(?:#|\\bCU-|/t/)${escapeRegExp(ticket.ticket.id)}\\b`];
+  if (ticket.ticket.custom_id) {
+    alternatives.push(`\\b${escapeRegExp(ticket.ticket.custom_id)}\\b`);
+  }
+  return new RegExp(alternatives.join('|'), 'gi');
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\0${b}` : `${b}\0${a}`;
+}
+
+export function detectDependencies(tickets: AnalyzedTicket[]): SprintDependencies {
+  const ids = new Set(tickets.map(t => t.ticket.id));
+  const dependencies = new Map<string, TicketDependency>();
+  const related = new Map<string, [string, string]>();
+
+  const addDependency = (taskId: string, dependsOn: string, source: TicketDependency['source']) => {
+    if (taskId === dependsOn || !ids.has(taskId) || !ids.has(dependsOn)) return;
+    const key = `${taskId}\0${dependsOn}`;
+    if (!dependencies.has(key)) dependencies.set(key, { taskId, dependsOn, source });
+  };
+  const addRelated = (a: string, b: string) => {
+    if (a === b || !ids.has(a) || !ids.has(b)) return;
+    related.set(pairKey(a, b), a < b ? [a, b] : [b, a]);
+  };
+
+  for (const { ticket } of tickets) {
+    ticket.dependencies?.forEach(d => addDependency(d.task_id, d.depends_on, 'clickup'));
+    ticket.linked_tasks?.forEach(l => addRelated(l.task_id, l.link_id));
+  }
+
+  // References to other sprint tickets in names and descriptions; matchAll copies
+  // the pattern, so one compiled pattern per ticket is reused for every text
+  const mentions = new Map(tickets.map(t => [t.ticket.id, mentionPattern(t)]));
+  for (const { ticket } of tickets) {
+    const text = `${ticket.name}\n${ticket.description || ''}`;
+    for (const other of tickets) {
+      if (other.ticket.id === ticket.id) continue;
+      for (const match of text.matchAll(mentions.get(other.ticket.id)!)) {
+        const before = text.slice(Math.max(0, match.index! - MENTION_CONTEXT), match.index);
+        if (DEPENDS_ON_PATTERN.test(before)) {
+          addDependency(ticket.id, other.ticket.id, 'mention');
+        } else if (BLOCKS_PATTERN.test(before)) {
+          addDependency(other.ticket.id, ticket.id, 'mention');
+        } else {
+          addRelated(ticket.id, other.ticket.id);
+        }
+      }
+    }
+  }
+
+  // Tickets that would have two people editing the same files
+  const conflicts: FileConflict[] = [];
+  for (let i = 0; i < tickets.length; i++) {
+    for (let j = i + 1; j < tickets.length; j++) {
+      const otherFiles = new Set(tickets[j].analysis.affectedFiles);
+      const files = tickets[i].analysis.affectedFiles.filter(f => otherFiles.has(f));
+      if (files.length > 0) {
+        conflicts.push({ taskIds: [tickets[i].ticket.id, tickets[j].ticket.id], files });
+      }
+    }
+  }
+
+  const edges = Array.from(dependencies.values());
+  return {
+    dependencies: edges,
+    related: Array.from(related.entries())
+      .filter(([key]) => !edges.some(e => pairKey(e.taskId, e.dependsOn) === key))
+      .map(([, pair]) => pair),
+    conflicts,
+    cycles: findCycles(Array.from(ids), edges),
+  };
+}
+
+// Strongly connected components with more than one ticket (Tarjan)
+function findCycles(ids: string[], edges: TicketDependency[]): string[][] {
+  const next = new Map<string, string[]>(ids.map(id => [id, []]));
+  edges.forEach(e => next.get(e.taskId)!.push(e.dependsOn));
+
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+
+    for (const target of next.get(id)!) {
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(target)!));
+      }
+    }
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  ids.forEach(id => {
+    if (!index.has(id)) visit(id);
+  });
+  return cycles;
+}
+
+// Topological order: a ticket comes after everything it depends on, ties broken by
+// the sort strategy. Cycles are broken at their first ticket in that order.
+export function orderSprint(
+  tickets: AnalyzedTicket[],
+  sortBy?: SortStrategy,
+  sortWeights?: SortWeights,
+): { tickets: AnalyzedTicket[]; dependencies: SprintDependencies } {
+  const dependencies = detectDependencies(tickets);
+  const remaining = sortTicketsBy(tickets, sortBy, sortWeights);
+  const waitingOn = new Map<string, Set<string>>(remaining.map(t => [t.ticket.id, new Set()]));
+  dependencies.dependencies.forEach(e => waitingOn.get(e.taskId)!.add(e.dependsOn));
+
+  const inCycle = new Set(dependencies.cycles.flat());
+
+  const ordered: AnalyzedTicket[] = [];
+  while (remaining.length > 0) {
+    let readyIndex = remaining.findIndex(t => waitingOn.get(t.ticket.id)!.size === 0);
+    if (readyIndex === -1) {
+      readyIndex = Math.max(0, remaining.findIndex(t => inCycle.has(t.ticket.id)));
+    }
+    const [next] = remaining.splice(readyIndex, 1);
+    ordered.push(next);
+    waitingOn.forEach(blockers => blockers.delete(next.ticket.id));
+  }
+
+  return { tickets: ordered, dependencies };
+}
+
+export interface TicketRelations {
+  blockedBy: string[]; // Sprint positions ("#3")
+  blocks: string[];
+  related: string[];
+  conflicts: { with: string; files: string[] }[];
+  cycle?: string[];
+}
+
+// One ticket's relations, referring to other tickets by their sprint position
+export function ticketRelations(
+  taskId: string,
+  dependencies: SprintDependencies,
+  positions: Map<string, number>,
+): TicketRelations {
+  const ref = (id: string) => `#${positions.get(id)}`;
+  const cycle = dependencies.cycles.find(c => c.includes(taskId));
+
+  return {
+    blockedBy: dependencies.dependencies.filter(e => e.taskId === taskId).map(e => ref(e.dependsOn)),
+    blocks: dependencies.dependencies.filter(e => e.dependsOn === taskId).map(e => ref(e.taskId)),
+    related: dependencies.related
+      .filter(pair => pair.includes(taskId))
+      .map(pair => ref(pair[0] === taskId ? pair[1] : pair[0])),
+    conflicts: dependencies.conflicts
+      .filter(c => c.taskIds.includes(taskId))
+      .map(c => ({ with: ref(c.taskIds[0] === taskId ? c.taskIds[1] : c.taskIds[0]), files: c.files })),
+    ...(cycle && { cycle: cycle.map(ref) }),
+  };
+}
+
+// Per-ticket markdown lines
+export function formatDependencyNotes(relations: TicketRelations): string[] {
+  const lines: string[] = [];
+
+  if (relations.blockedBy.length > 0) {
+    lines.push(`- **Blocked by**: ${relations.blockedBy.join(', ')}`);
+  }
+  if (relations.blocks.length > 0) {
+    lines.push(`- **Blocks**: ${relations.blocks.join(', ')}`);
+  }
+  if (relations.related.length > 0) {
+    lines.push(`- **Related**: ${relations.related.join(', ')}`);
+  }
+  relations.conflicts.forEach(c => {
+    lines.push(`- **Conflicts**: same files as ${c.with} (${c.files.map(f => `\`${f}\``).join(', ')})`);
+  });
+  if (relations.cycle) {
+    lines.push(`- ⚠️ **Dependency cycle**: ${relations.cycle.join(', ')} wait on each other`);
+  }
+  return lines;
+}
@@ -0,0 +1,60 @@
+import type { ClickUpTask, Estimate, TicketAnalysis } from '../types/index.js';
+
+// Estimates already recorded in ClickUp take precedence over analyzed ones
+
+export const DEFAULT_HOURS_PER_POINT = 4;
+
+const POINTS_FIELD_PATTERN = /^(story )?points?$/i;
+
+function numericValue(value: unknown): number | null {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+// Points from ClickUp Sprint Points, then a numeric custom field ("Story Points",
+// "Points" or the configured name)
+function readPoints(task: ClickUpTask, pointsField?: string): number | null {
+  const points = numericValue(task.points);
+  if (points !== null) return points;
+
+  const wanted = pointsField?.toLowerCase();
+  for (const field of task.custom_fields || []) {
+    if (!field || typeof field.name !== 'string') continue;
+    const matches = wanted ? field.name.toLowerCase() === wanted : POINTS_FIELD_PATTERN.test(field.name.trim());
+    if (!matches) continue;
+    const value = numericValue(field.value);
+    if (value !== null) return value;
+  }
+  return null;
+}
+
+// Estimate recorded on the task itself, or null if it has none
+export function readClickUpEstimate(
+  task: ClickUpTask,
+  pointsField?: string,
+  hoursPerPoint = DEFAULT_HOURS_PER_POINT,
+): Estimate | null {
+  const points = readPoints(task, pointsField);
+  const timeEstimate = numericValue(task.time_estimate);
+  const hours = timeEstimate ? Math.round(timeEstimate / 36_000) / 100 : undefined; // ms → hours
+
+  if (points === null && hours === undefined) return null;
+
+  return {
+    points: points ?? Math.max(1, Math.round(hours! / hoursPerPoint)),
+    ...(hours !== undefined && { hours }),
+    confidence: 1,
+    source: 'clickup',
+  };
+}
+
+// Replace the analyzed estimate with the one from ClickUp, if the task has one
+export function withClickUpEstimate(
+  task: ClickUpTask,
+  analysis: TicketAnalysis,
+  pointsField?: string,
+  hoursPerPoint = DEFAULT_HOURS_PER_POINT,
+): TicketAnalysis {
+  const estimate = readClickUpEstimate(task, pointsField, hoursPerPoint);
+  return estimate ? { ...analysis, estimate } : analysis;
+}
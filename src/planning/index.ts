@@ -0,0 +1,18 @@
+export { DEFAULT_HOURS_PER_POINT, readClickUpEstimate, withClickUpEstimate } from './estimates.js';
+export { planSprint } from './capacity.js';
+export {
+  getPriorityOrder,
+  GROUP_LABELS,
+  groupSubtotal,
+  groupTickets,
+  primaryAssignee,
+  routeArea,
+  SORT_LABELS,
+  sortTickets,
+  sortTicketsBy,
+  UNASSIGNED,
+} from './ticket-order.js';
+export type { TicketGroup } from './ticket-order.js';
+export { detectDependencies, formatDependencyNotes, orderSprint, ticketRelations } from './dependencies.js';
+export type { TicketRelations } from './dependencies.js';
+export { countChanges, diffSprints, formatSprintChanges } from './sprint-diff.js';
@@ -0,0 +1,81 @@
+import type { AnalyzedTicket, SprintData, SprintDiff } from '../types/index.js';
+
+// Compares two syncs of the same list: what was added, closed, moved,
+// re-prioritized or re-scored in between
+
+function ref({ ticket }: AnalyzedTicket) {
+  return { taskId: ticket.id, name: ticket.name };
+}
+
+export function diffSprints(previous: SprintData, current: SprintData): SprintDiff {
+  const before = new Map(previous.tickets.map(t => [t.ticket.id, t]));
+  const after = new Set(current.tickets.map(t => t.ticket.id));
+
+  const diff: SprintDiff = {
+    previousSyncTimestamp: previous.metadata.syncTimestamp,
+    added: [],
+    closed: [],
+    statusChanges: [],
+    priorityChanges: [],
+    qualityChanges: [],
+  };
+
+  for (const item of current.tickets) {
+    const old = before.get(item.ticket.id);
+    if (!old) {
+      diff.added.push(ref(item));
+      continue;
+    }
+
+    const from = old.ticket.status.status;
+    const to = item.ticket.status.status;
+    if (from.toLowerCase() !== to.toLowerCase()) {
+      diff.statusChanges.push({ ...ref(item), from, to });
+    }
+
+    const oldPriority = old.ticket.priority?.priority ?? null;
+    const newPriority = item.ticket.priority?.priority ?? null;
+    if (oldPriority !== newPriority) {
+      diff.priorityChanges.push({ ...ref(item), from: oldPriority, to: newPriority });
+    }
+
+    const delta = item.analysis.qualityScore - old.analysis.qualityScore;
+    if (delta !== 0) {
+      diff.qualityChanges.push({ ...ref(item), from: old.analysis.qualityScore, to: item.analysis.qualityScore, delta });
+    }
+  }
+
+  // A truncated sync is missing tickets that are still open, so nothing counts as closed
+  if (!current.metadata.truncated) {
+    diff.closed = previous.tickets
+      .filter(t => !after.has(t.ticket.id))
+      .map(t => ({ ...ref(t), status: t.ticket.status.status }));
+  }
+
+  return diff;
+}
+
+export function countChanges(diff: SprintDiff): number {
+  return diff.added.length + diff.closed.length + diff.statusChanges.length
+    + diff.priorityChanges.length + diff.qualityChanges.length;
+}
+
+// Markdown list items; tickets still in the sprint are referred to by position ("#3")
+export function formatSprintChanges(diff: SprintDiff, positions: Map<string, number>): string[] {
+  const label = (change: { taskId: string; name: string }) => {
+    const position = positions.get(change.taskId);
+    return position !== undefined ? `#${position} ${change.name}` : change.name;
+  };
+  const lines: string[] = [];
+
+  diff.added.forEach(c => lines.push(`- **New**: ${label(c)}`));
+  diff.closed.forEach(c => lines.push(`- **Closed**: ${label(c)} (last seen as ${c.status})`));
+  diff.statusChanges.forEach(c => lines.push(`- **Status**: ${label(c)}: ${c.from} → ${c.to}`));
+  diff.priorityChanges.forEach(c => {
+    lines.push(`- **Priority**: ${label(c)}: ${c.from ?? 'none'} → ${c.to ?? 'none'}`);
+  });
+  diff.qualityChanges.forEach(c => {
+    lines.push(`- **Quality**: ${label(c)}: ${c.from}/5 → ${c.to}/5 (${c.delta > 0 ? '+' : ''}${c.delta})`);
+  });
+  return lines;
+}
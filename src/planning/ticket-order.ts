@@ -0,0 +1,183 @@
+import type { AnalyzedTicket, GroupBy, SortStrategy, SortWeights } from '../types/index.js';
+
+export const UNASSIGNED = 'unassigned';
+
+// Capacity planning and grouping count a ticket against its first assignee only
+export function primaryAssignee(ticket: AnalyzedTicket): string {
+  return ticket.ticket.assignees?.[0]?.username || UNASSIGNED;
+}
+
+// Priority order mapping
+const PRIORITY_ORDER: Record<string, number> = {
+  'urgent': 1,
+  'high': 2,
+  'normal': 3,
+  'low': 4,
+};
+
+export function getPriorityOrder(priority?: string): number {
+  if (!priority) return 5;
+  const normalized = priority.toLowerCase();
+  return PRIORITY_ORDER[normalized] || 5;
+}
+
+// Sprint order: used for the markdown and for filling capacity
+export function sortTickets(tickets: AnalyzedTicket[]): AnalyzedTicket[] {
+  return [...tickets].sort((a, b) => {
+    // First sort by priority
+    const priorityA = getPriorityOrder(a.ticket.priority?.priority);
+    const priorityB = getPriorityOrder(b.ticket.priority?.priority);
+    
+    if (priorityA !== priorityB) {
+      return priorityA - priorityB;
+    }
+
+    // Then by quality score (higher first)
+    if (a.analysis.qualityScore !== b.analysis.qualityScore) {
+      return b.analysis.qualityScore - a.analysis.qualityScore;
+    }
+
+    // Then by complexity (fixes before features for quick wins)
+    if (a.analysis.complexityTag !== b.analysis.complexityTag) {
+      return a.analysis.complexityTag === 'fix' ? -1 : 1;
+    }
+
+    return 0;
+  });
+}
+
+// Labels for sprint file headings
+export const SORT_LABELS: Record<SortStrategy, string> = {
+  priority: 'priority',
+  dueDate: 'due date',
+  quality: 'quality score',
+  estimate: 'estimate',
+  weighted: 'weighted score',
+};
+
+export const GROUP_LABELS: Record<GroupBy, string> = {
+  assignee: 'Assignee',
+  status: 'Status',
+  tag: 'Tag',
+  routeArea: 'Area',
+  complexity: 'Complexity',
+};
+
+const DEFAULT_SORT_WEIGHTS: Required<SortWeights> = { priority: 0.4, quality: 0.2, estimate: 0.2, dueDate: 0.2 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DUE_DATE_HORIZON_DAYS = 14; // Due dates further out than this add nothing to the weighted score
+const MAX_ESTIMATE_POINTS = 13;
+
+// ClickUp due dates are millisecond timestamps as strings
+function dueTime(ticket: AnalyzedTicket): number {
+  const due = ticket.ticket.due_date;
+  const time = due ? new Date(/^\d+$/.test(due) ? Number(due) : due).getTime() : NaN;
+  return Number.isFinite(time) ? time : Infinity;
+}
+
+// 0-1 score per criterion, higher is "do it sooner"
+function weightedScore(ticket: AnalyzedTicket, weights: Required<SortWeights>, now: number): number {
+  const priority = (5 - getPriorityOrder(ticket.ticket.priority?.priority)) / 4;
+  const quality = ticket.analysis.qualityScore / 5;
+  const points = ticket.analysis.estimate?.points;
+  const estimate = points === undefined ? 0.5 : 1 - Math.min(points, MAX_ESTIMATE_POINTS) / MAX_ESTIMATE_POINTS;
+  const daysLeft = (dueTime(ticket) - now) / DAY_MS;
+  const dueDate = Math.max(0, Math.min(1, 1 - daysLeft / DUE_DATE_HORIZON_DAYS));
+
+  return weights.priority * priority + weights.quality * quality + weights.estimate * estimate + weights.dueDate * dueDate;
+}
+
+// Other strategies sort on top of the priority order, which breaks their ties
+export function sortTicketsBy(
+  tickets: AnalyzedTicket[],
+  sortBy: SortStrategy = 'priority',
+  sortWeights: SortWeights = {},
+): AnalyzedTicket[] {
+  const sorted = sortTickets(tickets);
+
+  switch (sortBy) {
+    case 'priority':
+      return sorted;
+    case 'dueDate':
+      return sorted.sort((a, b) => {
+        const dueA = dueTime(a);
+        const dueB = dueTime(b);
+        return dueA === dueB ? 0 : dueA < dueB ? -1 : 1;
+      });
+    case 'quality':
+      return sorted.sort((a, b) => b.analysis.qualityScore - a.analysis.qualityScore);
+    case 'estimate':
+      // Quick wins first; unestimated tickets last
+      return sorted.sort((a, b) => {
+        const pointsA = a.analysis.estimate?.points ?? Infinity;
+        const pointsB = b.analysis.estimate?.points ?? Infinity;
+        return pointsA === pointsB ? 0 : pointsA < pointsB ? -1 : 1;
+      });
+    case 'weighted': {
+      const weights = { ...DEFAULT_SORT_WEIGHTS, ...sortWeights };
+      const now = Date.now();
+      const scores = new Map(sorted.map(t => [t.ticket.id, weightedScore(t, weights, now)]));
+      return sorted.sort((a, b) => scores.get(b.ticket.id)! - scores.get(a.ticket.id)!);
+    }
+  }
+}
+
+// Top-level route segment of a file ("app/(shop)/checkout/page.tsx" → "/checkout"),
+// or its top directory for non-route files
+export function routeArea(file: string): string {
+  const segments = file.replace(/^(\.\/)?(src\/)?/, '').split('/');
+  const routeRoot = segments[0] === 'app' && segments[1] === 'routes' ? 2 : ['app', 'pages', 'routes'].includes(segments[0]) ? 1 : 0;
+
+  if (routeRoot === 0) {
+    return segments.length > 1 ? segments[0] : '/';
+  }
+
+  const directories = segments.slice(routeRoot, -1).filter(s => !/^\(.*\)$|^@/.test(s));
+  if (directories.length > 0) {
+    return `/${directories[0]}`;
+  }
+  // Remix flat routes keep the path in the file name ("checkout.$id.tsx")
+  const flat = segments[segments.length - 1].split('.')[0].replace(/^_index$|^index$|^page$|^layout$|^root$/, '');
+  return flat && routeRoot === 2 ? `/${flat.replace(/^_/, '')}` : '/';
+}
+
+function groupKey(ticket: AnalyzedTicket, groupBy: GroupBy): string {
+  switch (groupBy) {
+    case 'assignee':
+      return primaryAssignee(ticket);
+    case 'status':
+      return ticket.ticket.status.status;
+    case 'tag':
+      return ticket.ticket.tags?.[0]?.name || 'untagged';
+    case 'routeArea':
+      return ticket.analysis.affectedFiles.length > 0 ? routeArea(ticket.analysis.affectedFiles[0]) : 'unmapped';
+    case 'complexity':
+      return ticket.analysis.complexityTag;
+  }
+}
+
+export interface TicketGroup {
+  key: string;
+  tickets: AnalyzedTicket[];
+}
+
+// Groups in order of their first ticket, keeping the ticket order within each group.
+// Tickets with several assignees or tags go under the first one.
+export function groupTickets(tickets: AnalyzedTicket[], groupBy: GroupBy): TicketGroup[] {
+  const groups = new Map<string, AnalyzedTicket[]>();
+  for (const ticket of tickets) {
+    const key = groupKey(ticket, groupBy);
+    groups.set(key, [...(groups.get(key) || []), ticket]);
+  }
+  return Array.from(groups, ([key, grouped]) => ({ key, tickets: grouped }));
+}
+
+// "3 tickets, 8 points, avg quality 3.7"
+export function groupSubtotal(tickets: AnalyzedTicket[]): string {
+  const points = tickets.reduce((sum, t) => sum + (t.analysis.estimate?.points ?? 0), 0);
+  const quality = tickets.length > 0
+    ? (tickets.reduce((sum, t) => sum + t.analysis.qualityScore, 0) / tickets.length).toFixed(1)
+    : '0';
+  return `${tickets.length} ticket${tickets.length === 1 ? '' : 's'}, ${points} points, avg quality ${quality}`;
+}
@@ -0,0 +1,90 @@
+import type { CursorRuleFile } from '../types/index.js';
+import type { SprintView, TicketView } from './sprint-view.js';
+
+// One Cursor project rule (.mdc) per ticket. The rule attaches itself when an affected
+// file is open, and agents can load it by its description otherwise.
+
+const MAX_SLUG_LENGTH = 50;
+
+// "Fix checkout: totals (mobile)" → "fix-checkout-totals-mobile"
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/, '') || 'ticket';
+}
+
+function singleLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function ruleContent(t: TicketView): string {
+  const lines: string[] = [];
+  lines.push('---');
+  lines.push(`description: Sprint ticket ${t.id} (${t.complexity}): ${singleLine(t.name)}`);
+  if (t.analysis.affectedFiles.length > 0) {
+    lines.push(`globs: ${t.analysis.affectedFiles.join(',')}`);
+  }
+  lines.push('alwaysApply: false');
+  lines.push('---');
+  lines.push('');
+  lines.push(`# [${t.tag}] ${t.name}`);
+  lines.push('');
+  lines.push(`ClickUp task ${t.id}${t.url ? ` (${t.url})` : ''}, status "${t.status}"${t.priority ? `, priority ${t.priority}` : ''}.`);
+  if (t.estimate) {
+    lines.push(`Estimate: ${t.estimate}.`);
+  }
+
+  if (t.description) {
+    lines.push('');
+    lines.push('## Description');
+    lines.push('');
+    lines.push(t.description);
+  }
+
+  lines.push('');
+  lines.push('## Implementation');
+  lines.push('');
+  lines.push(t.approach);
+  if (t.analysis.affectedFiles.length > 0) {
+    lines.push('');
+    lines.push('Files to change:');
+    t.analysis.affectedFiles.forEach(file => lines.push(`- \`${file}\``));
+  }
+  if (t.analysis.dependentFiles && t.analysis.dependentFiles.length > 0) {
+    lines.push('');
+    lines.push(`Check the ${t.analysis.dependentFiles.length} file(s) that import them, starting with:`);
+    t.analysis.dependentFiles.slice(0, 5).forEach(file => lines.push(`- \`${file}\``));
+  }
+
+  if (t.analysis.qualityGaps.length > 0) {
+    lines.push('');
+    lines.push('## Open questions');
+    lines.push('');
+    lines.push('The ticket does not cover these; ask before assuming:');
+    t.analysis.qualityGaps.forEach(gap => lines.push(`- ${gap}`));
+  }
+
+  if (t.dependencyNotes.length > 0) {
+    lines.push('');
+    lines.push('## Sprint dependencies');
+    lines.push('');
+    lines.push(`Ticket numbers are positions in the sprint file, where this ticket is #${t.number}.`);
+    lines.push('');
+    lines.push(...t.dependencyNotes);
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+export function renderCursorRules(view: SprintView): CursorRuleFile[] {
+  return view.tickets.map(t => ({
+    taskId: t.id,
+    filename: `${slugify(t.id)}-${slugify(t.name)}.mdc`,
+    content: ruleContent(t),
+  }));
+}
@@ -0,0 +1,123 @@
+// Built-in sprint file layout. Custom templates (inline or SPRINT_TEMPLATE_PATH) use the
+// same variables; see SprintView in sprint-view.ts.
+export const DEFAULT_SPRINT_TEMPLATE = `# Sprint: {{sprintDate}}
+
+Synced from ClickUp List "{{listName}}" at {{syncTime}}
+Total tickets: {{ticketCount}}
+{{#if truncated}}
+> ⚠️ Only the first {{pagesRead}} pages of tasks were fetched; the list has more tickets.
+{{/if}}
+
+**Summary:**
+- Fixes: {{summary.fixes}}
+- Features: {{summary.features}}
+- Average Quality Score: {{summary.averageQuality}}/5
+{{#if summary.conflicts}}
+- File conflicts: {{summary.conflicts}} ticket pair(s) touch the same files
+{{/if}}
+
+{{#if cycles}}
+> ⚠️ {{cycles}} dependency cycle(s) found; the order within a cycle falls back to priority.
+
+{{/if}}
+{{#if changes}}
+## Changes since last sync
+
+_Compared with the sync at {{changes.since}}_
+
+{{#each changes.lines}}
+{{this}}
+{{else}}
+No changes.
+{{/each}}
+
+{{/if}}
+{{#if capacity}}
+## Capacity
+
+| Assignee | Capacity | Committed | Stretch | Backlog |
+| --- | --- | --- | --- | --- |
+{{#each capacity}}
+| {{name}} | {{capacity}} | {{committed}} | {{stretch}} | {{backlog}} |
+{{/each}}
+
+{{#each overAllocated}}
+> ⚠️ **{{assignee}}** is over-allocated: {{assigned}} points assigned against a capacity of {{capacity}}.
+{{/each}}
+{{#if overAllocated}}
+
+{{/if}}
+{{/if}}
+## Tickets (ordered by {{orderLabel}} and dependencies)
+
+{{#if tickets}}
+{{#each groups}}
+{{#if title}}
+## {{title}}
+_{{subtotal}}_
+
+{{/if}}
+{{#each tickets}}
+### {{number}}. [{{tag}}] {{name}}
+- **ClickUp ID**: {{id}}
+- **Status**: {{status}}
+- **Quality**: {{quality}}
+- **Complexity**: {{complexity}}
+{{#if estimate}}
+- **Estimate**: {{estimate}}
+{{/if}}
+{{#if plan}}
+- **Plan**: {{plan}}
+{{/if}}
+{{#if heuristic}}
+- **Analysis**: heuristic (rule-based, no LLM)
+{{/if}}
+{{#if priority}}
+- **Priority**: {{priority}}
+{{/if}}
+{{#if assignees}}
+- **Assignees**: {{assignees}}
+{{/if}}
+{{#if tags}}
+- **Tags**: {{tags}}
+{{/if}}
+{{#if dueDate}}
+- **Due Date**: {{dueDate}}
+{{/if}}
+{{#if affectedFiles}}
+- **Affected files**:
+{{#each affectedFiles}}
+  - \`{{path}}\`{{note}}
+{{/each}}
+{{else}}
+- **Affected files**: (none identified)
+{{/if}}
+{{#if blastRadius}}
+- **Blast radius**: {{blastRadius}}
+{{/if}}
+{{#if unverifiedFiles}}
+- **Unverified files** (not in codebase map, dropped): {{unverifiedFiles}}
+{{/if}}
+{{#each dependencyNotes}}
+{{this}}
+{{/each}}
+- **Suggested approach**: {{approach}}
+- **Agent**: {{agent}}
+{{#if description}}
+
+**Description:**
+{{description}}
+{{/if}}
+{{#if url}}
+
+[View in ClickUp]({{url}})
+{{/if}}
+
+---
+
+{{/each}}
+{{/each}}
+{{else}}
+No tickets found.
+{{/if}}
+`;
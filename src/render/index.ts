@@ -0,0 +1,11 @@
+export { compileTemplate, TemplateError } from './template.js';
+export type { CompiledTemplate, TemplateOptions } from './template.js';
+export { buildSprintView } from './sprint-view.js';
+export type { CapacityRowView, ChangesView, SprintView, TicketGroupView, TicketView } from './sprint-view.js';
+export { DEFAULT_SPRINT_TEMPLATE } from './default-template.js';
+export { renderArtifacts, renderSprint, resolveSprintTemplate } from './render-sprint.js';
+export { buildSprintDocument } from './sprint-document.js';
+export { renderSprintCsv } from './sprint-csv.js';
+export { renderSprintHtml } from './sprint-html.js';
+export { renderCursorRules, slugify } from './cursor-rules.js';
+export type { RenderedSprint } from './render-sprint.js';
@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import type { AnalyzedTicket, OutputFormat, SprintArtifacts, SprintDependencies, SprintDiff, SprintFormatterInput } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { DEFAULT_SPRINT_TEMPLATE } from './default-template.js';
+import { renderCursorRules } from './cursor-rules.js';
+import { buildSprintDocument } from './sprint-document.js';
+import { renderSprintCsv } from './sprint-csv.js';
+import { renderSprintHtml } from './sprint-html.js';
+import { buildSprintView, type SprintView } from './sprint-view.js';
+import { compileTemplate, type CompiledTemplate } from './template.js';
+
+export interface RenderedSprint {
+  markdown: string;
+  tickets: AnalyzedTicket[]; // In sprint file order
+  dependencies: SprintDependencies;
+  artifacts?: SprintArtifacts; // Present when formats asks for more than markdown
+  changes?: SprintDiff; // Present when a previous sync was given
+}
+
+// Templates can come from clients, so only the most recently used ones are kept
+const MAX_COMPILED_TEMPLATES = 20;
+const compiled = new Map<string, CompiledTemplate>();
+
+function compileCached(source: string): CompiledTemplate {
+  const template = compiled.get(source) || compileTemplate(source);
+  compiled.delete(source);
+  compiled.set(source, template);
+
+  // Map preserves insertion order, so the first key is the least recently used
+  while (compiled.size > MAX_COMPILED_TEMPLATES) {
+    const oldest = compiled.keys().next().value as string;
+    compiled.delete(oldest);
+  }
+  return template;
+}
+
+// Inline template, then the file at SPRINT_TEMPLATE_PATH, then the built-in layout
+export function resolveSprintTemplate(template?: string): string {
+  if (template) return template;
+  const templatePath = getEnvVar('SPRINT_TEMPLATE_PATH', false);
+  return templatePath ? fs.readFileSync(templatePath, 'utf-8') : DEFAULT_SPRINT_TEMPLATE;
+}
+
+export function renderArtifacts(view: SprintView, formats: OutputFormat[]): SprintArtifacts {
+  const artifacts: SprintArtifacts = {};
+  if (formats.includes('json')) artifacts.json = buildSprintDocument(view);
+  if (formats.includes('html')) artifacts.html = renderSprintHtml(view);
+  if (formats.includes('csv')) artifacts.csv = renderSprintCsv(view);
+  if (formats.includes('cursor-rules')) artifacts.cursorRules = renderCursorRules(view);
+  return artifacts;
+}
+
+// Throws TemplateError for malformed templates
+export function renderSprint(input: SprintFormatterInput): RenderedSprint {
+  const view = buildSprintView(input);
+  // One trailing newline, however the template's blocks end
+  const markdown = compileCached(resolveSprintTemplate(input.template))(view).replace(/\n*$/, '\n');
+  const formats = (input.formats || []).filter(format => format !== 'markdown');
+
+  return {
+    markdown,
+    tickets: view.tickets.map(t => ({ ticket: t.ticket, analysis: t.analysis })),
+    dependencies: view.dependencies,
+    ...(view.changes && { changes: view.changes.diff }),
+    ...(formats.length > 0 && { artifacts: renderArtifacts(view, formats) }),
+  };
+}
@@ -0,0 +1,39 @@
+import type { SprintView } from './sprint-view.js';
+
+// One row per ticket in sprint file order, RFC 4180 quoting
+
+const COLUMNS = [
+  'Position', 'ClickUp ID', 'Name', 'Status', 'Priority', 'Assignees', 'Tags', 'Due Date', 'Complexity',
+  'Quality', 'Quality Gaps', 'Points', 'Estimate Source', 'Plan', 'Affected Files', 'Blocked By', 'URL',
+];
+
+function csvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+  // Keep spreadsheets from evaluating ticket text as a formula
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function renderSprintCsv(view: SprintView): string {
+  const rows = view.tickets.map(t => [
+    t.number,
+    t.id,
+    t.name,
+    t.status,
+    t.priority,
+    t.assignees,
+    t.tags,
+    t.dueDate,
+    t.complexity,
+    t.analysis.qualityScore,
+    t.analysis.qualityGaps.join('; '),
+    t.analysis.estimate?.points,
+    t.analysis.estimate?.source,
+    t.plan,
+    t.analysis.affectedFiles.join('; '),
+    t.relations.blockedBy.join(' '),
+    t.url,
+  ]);
+
+  return [COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
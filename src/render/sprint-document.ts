@@ -0,0 +1,37 @@
+import { SPRINT_DOCUMENT_VERSION, type SprintDocument } from '../types/index.js';
+import type { SprintView } from './sprint-view.js';
+
+// JSON sprint document (see SprintDocumentSchema): tickets in sprint file order
+export function buildSprintDocument(view: SprintView): SprintDocument {
+  const tickets = view.groups.flatMap(group => group.tickets.map(t => {
+    const planned = view.plan?.tickets.find(p => p.taskId === t.id);
+    return {
+      position: t.number,
+      ...(group.key !== undefined && { group: group.key }),
+      ticket: t.ticket,
+      analysis: t.analysis,
+      ...(planned && { plan: { assignee: planned.assignee, points: planned.points, bucket: planned.bucket } }),
+    };
+  }));
+
+  return {
+    schemaVersion: SPRINT_DOCUMENT_VERSION,
+    generatedAt: new Date().toISOString(),
+    metadata: view.metadata,
+    summary: {
+      ticketCount: view.tickets.length,
+      fixes: view.summary.fixes,
+      features: view.summary.features,
+      averageQuality: Number(view.summary.averageQuality),
+      totalPoints: view.tickets.reduce((sum, t) => sum + (t.analysis.estimate?.points ?? 0), 0),
+    },
+    ordering: {
+      sortBy: view.sortBy,
+      ...(view.groupBy && { groupBy: view.groupBy }),
+    },
+    tickets,
+    dependencies: view.dependencies,
+    ...(view.plan && { plan: view.plan }),
+    ...(view.changes && { changes: view.changes.diff }),
+  };
+}
@@ -0,0 +1,124 @@
+import { compileTemplate, type CompiledTemplate } from './template.js';
+import type { SprintView } from './sprint-view.js';
+
+// Standalone HTML report: no external assets, one collapsible <details> per ticket
+
+const HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Sprint {{sprintDate}} - {{listName}}</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #59636e; margin-top: 0; }
+  .warning { background: #fff8c5; border: 1px solid #d4a72c; border-radius: 6px; padding: 0.5rem 0.75rem; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #d1d9e0; padding: 0.35rem 0.75rem; text-align: left; }
+  details { border: 1px solid #d1d9e0; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 0.75rem; }
+  summary { cursor: pointer; font-weight: 600; }
+  .tag { display: inline-block; border-radius: 4px; padding: 0 0.4rem; font-size: 0.8rem; color: #fff; background: #8250df; }
+  .tag.fix { background: #1a7f37; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+  dt { font-weight: 600; }
+  dd { margin: 0; }
+  pre { white-space: pre-wrap; background: #f6f8fa; padding: 0.75rem; border-radius: 6px; }
+</style>
+</head>
+<body>
+<h1>Sprint {{sprintDate}}</h1>
+<p class="meta">Synced from ClickUp list &ldquo;{{listName}}&rdquo; at {{syncTime}} &middot; {{ticketCount}} tickets &middot; {{summary.fixes}} fixes, {{summary.features}} features &middot; average quality {{summary.averageQuality}}/5</p>
+{{#if truncated}}
+<p class="warning">Only the first {{pagesRead}} pages of tasks were fetched; the list has more tickets.</p>
+{{/if}}
+{{#if cycles}}
+<p class="warning">{{cycles}} dependency cycle(s) found; the order within a cycle falls back to priority.</p>
+{{/if}}
+{{#if capacity}}
+<h2>Capacity</h2>
+<table>
+<tr><th>Assignee</th><th>Capacity</th><th>Committed</th><th>Stretch</th><th>Backlog</th></tr>
+{{#each capacity}}
+<tr><td>{{name}}</td><td>{{capacity}}</td><td>{{committed}}</td><td>{{stretch}}</td><td>{{backlog}}</td></tr>
+{{/each}}
+</table>
+{{#each overAllocated}}
+<p class="warning"><strong>{{assignee}}</strong> is over-allocated: {{assigned}} points assigned against a capacity of {{capacity}}.</p>
+{{/each}}
+{{/if}}
+<h2>Tickets (ordered by {{orderLabel}} and dependencies)</h2>
+{{#if tickets}}
+{{#each groups}}
+{{#if title}}
+<h3>{{title}} <small>({{subtotal}})</small></h3>
+{{/if}}
+{{#each tickets}}
+<details>
+<summary>{{number}}. <span class="tag {{complexity}}">{{tag}}</span> {{name}}</summary>
+<dl>
+<dt>ClickUp ID</dt><dd>{{#if url}}<a href="{{url}}">{{id}}</a>{{else}}{{id}}{{/if}}</dd>
+<dt>Status</dt><dd>{{status}}</dd>
+<dt>Quality</dt><dd>{{quality}}</dd>
+{{#if estimate}}
+<dt>Estimate</dt><dd>{{estimate}}</dd>
+{{/if}}
+{{#if plan}}
+<dt>Plan</dt><dd>{{plan}}</dd>
+{{/if}}
+{{#if priority}}
+<dt>Priority</dt><dd>{{priority}}</dd>
+{{/if}}
+{{#if assignees}}
+<dt>Assignees</dt><dd>{{assignees}}</dd>
+{{/if}}
+{{#if tags}}
+<dt>Tags</dt><dd>{{tags}}</dd>
+{{/if}}
+{{#if dueDate}}
+<dt>Due date</dt><dd>{{dueDate}}</dd>
+{{/if}}
+<dt>Affected files</dt><dd>{{#each analysis.affectedFiles}}<code>{{this}}</code> {{else}}none identified{{/each}}</dd>
+{{#if analysis.dependentFiles}}
+<dt>Blast radius</dt><dd>{{analysis.dependentFiles.length}} dependent file(s)</dd>
+{{/if}}
+{{#if relations.blockedBy}}
+<dt>Blocked by</dt><dd>{{#each relations.blockedBy}}{{this}} {{/each}}</dd>
+{{/if}}
+{{#if relations.blocks}}
+<dt>Blocks</dt><dd>{{#each relations.blocks}}{{this}} {{/each}}</dd>
+{{/if}}
+{{#each relations.conflicts}}
+<dt>Conflicts</dt><dd>same files as {{with}}: {{#each files}}<code>{{this}}</code> {{/each}}</dd>
+{{/each}}
+<dt>Suggested approach</dt><dd>{{approach}}</dd>
+<dt>Agent</dt><dd><code>{{agent}}</code></dd>
+</dl>
+{{#if description}}
+<pre>{{description}}</pre>
+{{/if}}
+</details>
+{{/each}}
+{{/each}}
+{{else}}
+<p>No tickets found.</p>
+{{/if}}
+</body>
+</html>
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+let template: CompiledTemplate | null = null;
+
+export function renderSprintHtml(view: SprintView): string {
+  template ??= compileTemplate(HTML_TEMPLATE, { escape: escapeHtml });
+  return template(view);
+}
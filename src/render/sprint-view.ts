@@ -0,0 +1,247 @@
+import type {
+  AnalyzedTicket,
+  Estimate,
+  GroupBy,
+  SortStrategy,
+  SprintDependencies,
+  SprintDiff,
+  SprintFormatterInput,
+  SprintMetadata,
+  SprintPlan,
+} from '../types/index.js';
+import {
+  countChanges,
+  diffSprints,
+  formatDependencyNotes,
+  formatSprintChanges,
+  groupSubtotal,
+  groupTickets,
+  orderSprint,
+  ticketRelations,
+  GROUP_LABELS,
+  SORT_LABELS,
+  type TicketRelations,
+} from '../planning/index.js';
+
+// Everything a sprint template can use. Display strings are precomputed so the
+// default template stays readable; the raw ticket and analysis are there for custom ones.
+
+export interface TicketView {
+  number: number; // Sprint position, as used in "#3" references
+  id: string;
+  name: string;
+  tag: string; // "FIX" / "FEATURE"
+  status: string;
+  quality: string; // "4/5 (missing: error scenarios)"
+  complexity: string;
+  estimate?: string;
+  plan?: string; // "committed (jane)"
+  heuristic: boolean;
+  priority?: string;
+  assignees?: string;
+  tags?: string;
+  dueDate?: string; // YYYY-MM-DD
+  affectedFiles: { path: string; note: string }[];
+  blastRadius?: string;
+  unverifiedFiles?: string;
+  relations: TicketRelations;
+  dependencyNotes: string[]; // Markdown list items ("- **Blocked by**: #1")
+  approach: string;
+  agent: string; // "/fix" or "/agent"
+  description?: string;
+  url?: string;
+  ticket: AnalyzedTicket['ticket'];
+  analysis: AnalyzedTicket['analysis'];
+}
+
+export interface TicketGroupView {
+  key?: string; // "jane"; absent when not grouping
+  title?: string; // "Assignee: jane"
+  subtotal: string;
+  tickets: TicketView[];
+}
+
+export interface CapacityRowView {
+  name: string; // Prefixed with ⚠️ when over-allocated
+  assignee: string;
+  capacity: string;
+  assigned: string;
+  committed: string;
+  stretch: string;
+  backlog: string;
+  overAllocated: boolean;
+}
+
+export interface ChangesView {
+  since: string; // Previous sync time
+  count: number;
+  lines: string[]; // Markdown list items ("- **New**: #3 Add profile page")
+  diff: SprintDiff;
+}
+
+export interface SprintView {
+  sprintDate: string;
+  syncTime: string;
+  listName: string;
+  metadata: SprintMetadata;
+  ticketCount: number;
+  truncated: boolean;
+  pagesRead?: number;
+  summary: { fixes: number; features: number; averageQuality: string; conflicts: number };
+  cycles: number;
+  capacity?: CapacityRowView[];
+  overAllocated: CapacityRowView[];
+  sortBy: SortStrategy;
+  groupBy?: GroupBy;
+  orderLabel: string; // "priority", "due date", ...
+  groups: TicketGroupView[];
+  tickets: TicketView[];
+  dependencies: SprintDependencies;
+  plan?: SprintPlan;
+  changes?: ChangesView; // Present when a previous sync was given
+}
+
+function formatQualityScore(score: number, gaps: string[]): string {
+  if (gaps.length === 0) {
+    return `${score}/5`;
+  }
+  return `${score}/5 (missing: ${gaps.join(', ')})`;
+}
+
+function formatEstimate(estimate: Estimate): string {
+  const hours = estimate.hours !== undefined ? `, ${estimate.hours}h` : '';
+  const source = estimate.source ? `, from ${estimate.source}` : '';
+  return `${estimate.points} points${hours} (${Math.round(estimate.confidence * 100)}% confidence${source})`;
+}
+
+function formatPoints(points: number): string {
+  return String(Math.round(points * 10) / 10);
+}
+
+// ClickUp sends dates as millisecond timestamps in strings
+function formatDate(value: string): string | undefined {
+  const date = new Date(/^\d+$/.test(value) ? Number(value) : value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+}
+
+function ticketView(
+  item: AnalyzedTicket,
+  number: number,
+  dependencies: SprintDependencies,
+  positions: Map<string, number>,
+  plan?: SprintPlan,
+): TicketView {
+  const { ticket: t, analysis: a } = item;
+  const planned = plan?.tickets.find(p => p.taskId === t.id);
+  const relations = ticketRelations(t.id, dependencies, positions);
+
+  const dependents = a.dependentFiles || [];
+  const shownDependents = dependents.slice(0, 5).map(f => `\`${f}\``).join(', ');
+  const moreDependents = dependents.length > 5 ? ` and ${dependents.length - 5} more` : '';
+
+  return {
+    number,
+    id: t.id,
+    name: t.name,
+    tag: a.complexityTag.toUpperCase(),
+    status: t.status.status,
+    quality: formatQualityScore(a.qualityScore, a.qualityGaps),
+    complexity: a.complexityTag,
+    estimate: a.estimate ? formatEstimate(a.estimate) : undefined,
+    plan: planned ? `${planned.bucket} (${planned.assignee})` : undefined,
+    heuristic: a.source === 'heuristic',
+    priority: t.priority?.priority,
+    assignees: t.assignees && t.assignees.length > 0 ? t.assignees.map(u => u.username).join(', ') : undefined,
+    tags: t.tags && t.tags.length > 0 ? t.tags.map(tag => tag.name).join(', ') : undefined,
+    dueDate: t.due_date ? formatDate(t.due_date) : undefined,
+    affectedFiles: a.affectedFiles.map(path => {
+      // Flag paths that were fuzzy-corrected from the model's suggestion
+      const match = a.fileMatches?.find(m => m.path === path);
+      const note = match?.correctedFrom ? ` (corrected from \`${match.correctedFrom}\`, ${Math.round(match.confidence * 100)}% match)` : '';
+      return { path, note };
+    }),
+    blastRadius: dependents.length > 0 ? `${dependents.length} dependent file(s): ${shownDependents}${moreDependents}` : undefined,
+    unverifiedFiles: a.hallucinatedFiles && a.hallucinatedFiles.length > 0
+      ? a.hallucinatedFiles.map(f => `\`${f}\``).join(', ')
+      : undefined,
+    relations,
+    dependencyNotes: formatDependencyNotes(relations),
+    approach: a.suggestedApproach,
+    agent: a.complexityTag === 'fix' ? '/fix' : '/agent',
+    description: t.description && t.description.trim().length > 0 ? t.description.trim() : undefined,
+    url: t.url && /^https?:\/\//i.test(t.url) ? t.url : undefined, // Only web links end up in rendered output
+    ticket: t,
+    analysis: a,
+  };
+}
+
+// Sorts, groups and numbers the tickets and precomputes every display string
+export function buildSprintView(input: SprintFormatterInput): SprintView {
+  const { tickets, metadata, plan, previous, sortBy = 'priority', sortWeights, groupBy } = input;
+
+  // Sort tickets, with blockers before the tickets waiting on them, then group them.
+  // Numbering runs through the groups so "#3" references stay unique.
+  const { tickets: orderedTickets, dependencies } = orderSprint(tickets, sortBy, sortWeights);
+  const groups = groupBy ? groupTickets(orderedTickets, groupBy) : [{ key: '', tickets: orderedTickets }];
+  const positions = new Map(groups.flatMap(g => g.tickets).map((t, i) => [t.ticket.id, i + 1]));
+
+  const groupViews = groups.map(group => ({
+    key: groupBy ? group.key : undefined,
+    title: groupBy ? `${GROUP_LABELS[groupBy]}: ${group.key}` : undefined,
+    subtotal: groupSubtotal(group.tickets),
+    tickets: group.tickets.map(t => ticketView(t, positions.get(t.ticket.id)!, dependencies, positions, plan)),
+  }));
+
+  const capacity = plan?.assignees.map(a => ({
+    name: a.overAllocated ? `⚠️ ${a.assignee}` : a.assignee,
+    assignee: a.assignee,
+    capacity: formatPoints(a.capacity),
+    assigned: formatPoints(a.assigned),
+    committed: formatPoints(a.committed),
+    stretch: formatPoints(a.stretch),
+    backlog: formatPoints(a.backlog),
+    overAllocated: a.overAllocated,
+  }));
+
+  // A stored snapshot with a malformed timestamp is left out rather than failing the render
+  const since = previous ? new Date(previous.metadata.syncTimestamp) : undefined;
+  const validPrevious = since && !Number.isNaN(since.getTime()) ? previous : undefined;
+  const diff = validPrevious ? diffSprints(validPrevious, { tickets, metadata }) : undefined;
+  const changes = diff && since && {
+    since: since.toISOString(),
+    count: countChanges(diff),
+    lines: formatSprintChanges(diff, positions),
+    diff,
+  };
+
+  const averageQuality = tickets.length > 0
+    ? (tickets.reduce((sum, t) => sum + t.analysis.qualityScore, 0) / tickets.length).toFixed(1)
+    : '0';
+
+  return {
+    sprintDate: new Date(metadata.syncTimestamp).toISOString().split('T')[0],
+    syncTime: new Date(metadata.syncTimestamp).toISOString(),
+    listName: metadata.listName || `List ${metadata.listId}`,
+    metadata,
+    ticketCount: metadata.ticketCount,
+    truncated: Boolean(metadata.truncated),
+    pagesRead: metadata.pagesRead,
+    summary: {
+      fixes: tickets.filter(t => t.analysis.complexityTag === 'fix').length,
+      features: tickets.filter(t => t.analysis.complexityTag === 'feature').length,
+      averageQuality,
+      conflicts: dependencies.conflicts.length,
+    },
+    cycles: dependencies.cycles.length,
+    capacity,
+    overAllocated: (capacity || []).filter(row => row.overAllocated),
+    sortBy,
+    groupBy,
+    orderLabel: SORT_LABELS[sortBy],
+    groups: groupViews,
+    tickets: groupViews.flatMap(g => g.tickets),
+    dependencies,
+    plan,
+    changes,
+  };
+}
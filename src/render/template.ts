@@ -0,0 +1,186 @@
+// Minimal Handlebars-style templates for sprint files:
+//   {{path.to.value}}  {{{raw}}}  {{this}}  {{@index}}  {{@number}}  {{../parent}}  {{@root.x}}
+//   {{#each list}}...{{else}}...{{/each}}  {{#if x}}...{{else}}...{{/if}}  {{#unless x}}...{{/unless}}
+//   {{! comment }}
+// A block tag alone on its line removes that whole line, as in Handlebars.
+
+export class TemplateError extends Error {
+  constructor(message: string, public readonly offset?: number) {
+    super(offset === undefined ? message : `${message} (at character ${offset})`);
+    this.name = 'TemplateError';
+  }
+}
+
+type BlockKind = 'each' | 'if' | 'unless';
+
+type Node =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'block'; kind: BlockKind; path: string; body: Node[]; inverse: Node[] };
+
+interface Token {
+  type: 'text' | 'tag';
+  value: string;
+  raw?: boolean;
+  offset: number;
+}
+
+export interface TemplateOptions {
+  escape?: (value: string) => string; // Applied to {{value}} but not {{{value}}}; default none
+}
+
+export type CompiledTemplate = (context: unknown) => string;
+
+const TAG_PATTERN = /\{\{\{\s*([^}]*?)\s*\}\}\}|\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+function isStandaloneTag(tag: string): boolean {
+  return /^[#/!]/.test(tag) || tag === 'else';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const raw = match[1] !== undefined;
+    const tag = raw ? match[1] : match[2];
+    let start = match.index!;
+    let end = start + match[0].length;
+
+    // Block tags alone on a line take the line with them
+    if (!raw && isStandaloneTag(tag)) {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const newline = source.indexOf('\n', end);
+      const lineEnd = newline === -1 ? source.length : newline + 1;
+      if (lineStart >= last && /^[ \t]*$/.test(source.slice(lineStart, start)) && /^[ \t]*\r?\n?$/.test(source.slice(end, lineEnd))) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    if (start > last) tokens.push({ type: 'text', value: source.slice(last, start), offset: last });
+    tokens.push({ type: 'tag', value: tag, raw, offset: match.index! });
+    last = end;
+  }
+
+  if (last < source.length) tokens.push({ type: 'text', value: source.slice(last), offset: last });
+  return tokens;
+}
+
+function parse(tokens: Token[]): Node[] {
+  const root: Node[] = [];
+  // Open blocks, innermost last; `target` is the body or inverse being filled
+  const stack: { node: Extract<Node, { type: 'block' }>; target: Node[]; offset: number }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  for (const token of tokens) {
+    if (token.type === 'text') {
+      current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    const tag = token.value;
+    if (token.raw) {
+      current().push({ type: 'value', path: tag, raw: true });
+    } else if (tag.startsWith('!')) {
+      continue;
+    } else if (tag.startsWith('#')) {
+      const [kind, path] = tag.slice(1).split(/\s+/, 2);
+      if (kind !== 'each' && kind !== 'if' && kind !== 'unless') {
+        throw new TemplateError(`Unknown block helper "${kind}"`, token.offset);
+      }
+      if (!path) {
+        throw new TemplateError(`{{#${kind}}} needs a value`, token.offset);
+      }
+      const node: Extract<Node, { type: 'block' }> = { type: 'block', kind, path, body: [], inverse: [] };
+      current().push(node);
+      stack.push({ node, target: node.body, offset: token.offset });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open) throw new TemplateError('{{else}} outside a block', token.offset);
+      open.target = open.node.inverse;
+    } else if (tag.startsWith('/')) {
+      const kind = tag.slice(1).trim();
+      const open = stack.pop();
+      if (!open || open.node.kind !== kind) {
+        throw new TemplateError(`Unexpected {{/${kind}}}`, token.offset);
+      }
+    } else {
+      current().push({ type: 'value', path: tag, raw: false });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new TemplateError(`Unclosed {{#${open.node.kind}}}`, open.offset);
+  }
+  return root;
+}
+
+interface Frame {
+  context: unknown;
+  data: Record<string, unknown>; // @index, @first, ...
+}
+
+function lookup(path: string, frames: Frame[]): unknown {
+  let depth = frames.length - 1;
+  let rest = path;
+  while (rest.startsWith('../')) {
+    depth = Math.max(0, depth - 1);
+    rest = rest.slice(3);
+  }
+
+  if (rest.startsWith('@root')) {
+    depth = 0;
+    rest = rest.slice(5).replace(/^\./, '');
+  } else if (rest.startsWith('@')) {
+    return frames[depth].data[rest.slice(1)];
+  }
+
+  let value = frames[depth].context;
+  if (rest === '' || rest === 'this' || rest === '.') return value;
+  for (const key of rest.replace(/^this\./, '').split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function renderNodes(nodes: Node[], frames: Frame[], options: TemplateOptions): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'value') {
+      const value = lookup(node.path, frames);
+      const text = value === null || value === undefined ? '' : String(value);
+      output += node.raw || !options.escape ? text : options.escape(text);
+    } else if (node.kind === 'each') {
+      const list = lookup(node.path, frames);
+      const items = Array.isArray(list) ? list : [];
+      if (items.length === 0) {
+        output += renderNodes(node.inverse, frames, options);
+      }
+      items.forEach((item, index) => {
+        const data = { index, number: index + 1, first: index === 0, last: index === items.length - 1 };
+        output += renderNodes(node.body, [...frames, { context: item, data }], options);
+      });
+    } else {
+      const truthy = isTruthy(lookup(node.path, frames));
+      const show = node.kind === 'if' ? truthy : !truthy;
+      output += renderNodes(show ? node.body : node.inverse, frames, options);
+    }
+  }
+  return output;
+}
+
+// Parses once; throws TemplateError on malformed templates
+export function compileTemplate(source: string, options: TemplateOptions = {}): CompiledTemplate {
+  const nodes = parse(tokenize(source));
+  return context => renderNodes(nodes, [{ context, data: {} }], options);
+}
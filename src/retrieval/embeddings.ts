@@ -0,0 +1,53 @@
+import { embedMany } from 'ai';
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import type { CodebaseIndex } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { HASHING_EMBEDDINGS, hashingVector } from './hashing.js';
+
+// Embedding specs are "hashing" or "provider:model". Queries must be embedded with the
+// same provider that built the index, so the provider is taken from the index itself.
+
+export interface EmbeddingProvider {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderFactory = (modelId: string, index: CodebaseIndex) => EmbeddingProvider;
+
+async function embedWith(model: Parameters<typeof embedMany>[0]['model'], texts: string[]): Promise<number[][]> {
+  const { embeddings } = await embedMany({ model, values: texts });
+  return embeddings;
+}
+
+const providers = new Map<string, EmbeddingProviderFactory>([
+  [HASHING_EMBEDDINGS, (_modelId, index) => ({
+    embed: async texts => texts.map(text => hashingVector(text, index.dimensions, index.idf)),
+  })],
+  ['openai', modelId => ({
+    embed: texts => embedWith(openai.embedding(modelId), texts),
+  })],
+  ['openai-compatible', modelId => ({
+    embed: texts => embedWith(createOpenAI({
+      name: 'openai-compatible',
+      baseURL: getEnvVar('OPENAI_COMPATIBLE_BASE_URL', false) || 'http://localhost:11434/v1',
+      apiKey: getEnvVar('OPENAI_COMPATIBLE_API_KEY', false) || 'not-needed',
+      compatibility: 'compatible',
+    }).embedding(modelId), texts),
+  })],
+]);
+
+// Add or replace an embedding provider (other hosted models, test doubles)
+export function registerEmbeddingProvider(id: string, factory: EmbeddingProviderFactory): void {
+  providers.set(id, factory);
+}
+
+export function resolveEmbeddingProvider(index: CodebaseIndex): EmbeddingProvider {
+  const separator = index.embeddings.indexOf(':');
+  const provider = separator > 0 ? index.embeddings.slice(0, separator) : index.embeddings;
+  const modelId = separator > 0 ? index.embeddings.slice(separator + 1) : '';
+
+  const factory = providers.get(provider);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider "${provider}". Available: ${Array.from(providers.keys()).join(', ')}`);
+  }
+  return factory(modelId, index);
+}
@@ -0,0 +1,42 @@
+// Offline embeddings: TF-IDF weighted feature hashing. Tokens are hashed into a fixed
+// number of buckets, so no vocabulary has to be shipped with the index. The scanner
+// (client/scan-codebase.ts) has its own copy of this algorithm; keep the two in sync.
+
+export const HASHING_EMBEDDINGS = 'hashing';
+export const DEFAULT_HASHING_DIMENSIONS = 256;
+
+// Lowercase word tokens, splitting camelCase, kebab-case, snake_case and path separators
+export function hashingTokens(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length >= 2);
+}
+
+// 32-bit FNV-1a
+function fnv1a(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Unit-length vector; idf weights buckets by how rare they are in the indexed project
+export function hashingVector(text: string, dimensions: number, idf?: number[]): number[] {
+  const counts = new Map<number, number>();
+  for (const token of hashingTokens(text)) {
+    const bucket = fnv1a(token) % dimensions;
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, bucket) => {
+    vector[bucket] = (1 + Math.log(count)) * (idf?.[bucket] ?? 1);
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
@@ -0,0 +1,5 @@
+export { DEFAULT_HASHING_DIMENSIONS, HASHING_EMBEDDINGS, hashingTokens, hashingVector } from './hashing.js';
+export { registerEmbeddingProvider, resolveEmbeddingProvider } from './embeddings.js';
+export type { EmbeddingProvider, EmbeddingProviderFactory } from './embeddings.js';
+export { DEFAULT_RETRIEVAL_K, retrieveCandidateFiles, ticketQueryText } from './retrieve.js';
+export type { RetrievedFile } from './retrieve.js';
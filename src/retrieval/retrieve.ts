@@ -0,0 +1,55 @@
+import type { ClickUpTask, CodebaseIndex } from '../types/index.js';
+import { resolveEmbeddingProvider } from './embeddings.js';
+
+export const DEFAULT_RETRIEVAL_K = 8;
+
+// Chunks scoring below this are noise, mostly shared boilerplate tokens
+const MIN_SIMILARITY = 0.1;
+
+export interface RetrievedFile {
+  path: string;
+  score: number; // Best cosine similarity among the file's chunks
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export function ticketQueryText(ticket: ClickUpTask): string {
+  return [ticket.name, ticket.description || '', ...(ticket.tags || []).map(t => t.name)].join('\n');
+}
+
+// Top-k files for a ticket by embedding similarity. Best-effort: retrieval problems
+// (e.g. a missing API key for the index's provider) are logged and yield no candidates.
+export async function retrieveCandidateFiles(
+  ticket: ClickUpTask,
+  index: CodebaseIndex,
+  k = DEFAULT_RETRIEVAL_K,
+): Promise<RetrievedFile[]> {
+  try {
+    const [query] = await resolveEmbeddingProvider(index).embed([ticketQueryText(ticket)]);
+
+    const best = new Map<string, number>();
+    for (const chunk of index.chunks) {
+      const score = cosine(query, chunk.vector);
+      if (score >= MIN_SIMILARITY && score > (best.get(chunk.file) ?? 0)) {
+        best.set(chunk.file, score);
+      }
+    }
+
+    return Array.from(best, ([path, score]) => ({ path, score: Math.round(score * 1000) / 1000 }))
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, k);
+  } catch (error) {
+    console.warn(`Retrieval failed for ticket ${ticket.id}:`, error instanceof Error ? error.message : error);
+    return [];
+  }
+}
@@ -1,7 +1,9 @@
 import { createTool } from '@mastra/core/tools';
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
 import { AnalyzeTicketInputSchema, TicketAnalysisSchema } from '../types/index.js';
+import { generateTicketAnalysis } from '../llm/index.js';
+import { analyzeTicketHeuristically, resolveContextTokens, selectCodebaseContext } from '../analysis/index.js';
+import { retrieveCandidateFiles } from '../retrieval/index.js';
+import { withClickUpEstimate } from '../planning/index.js';
 
 const SYSTEM_PROMPT = `You are a senior software developer reviewing sprint tickets for quality and implementation planning.
 
@@ -20,6 +22,7 @@ Your tasks:
    - Considering the feature area (auth, profile, ui, etc.)
    - Identifying related components, pages, and server actions
    - Being specific with file paths (use the exact paths from codebaseMap)
+   - Using the exported symbols listed after each file to name the functions, components or handlers to change
 
 4. Classify as 'fix' or 'feature':
    - 'fix': Bug fixes, styling updates, small corrections
@@ -27,17 +30,28 @@ Your tasks:
 
 5. Provide a 1-2 sentence implementation approach that is specific and actionable
 
+6. Estimate the effort in story points (1, 2, 3, 5, 8 or 13) with a confidence between 0 and 1
+
 Be thorough but concise. Focus on practical guidance that helps developers implement the ticket efficiently.`;
 
 export const analyzeTicketTool = createTool({
   id: 'analyze-ticket',
-  description: 'Analyze a ClickUp ticket for quality and map it to codebase files using GPT-4o',
+  description: 'Analyze a ClickUp ticket for quality and map it to codebase files using the configured LLM, or offline rules with analysisMode "heuristic"',
   inputSchema: AnalyzeTicketInputSchema,
   outputSchema: TicketAnalysisSchema,
   execute: async (inputData) => {
-    const { ticket, codebaseMap } = inputData;
+    const { ticket, codebaseMap, llm, analysisMode = 'llm', contextTokens, codebaseIndex } = inputData;
+
+    // Offline rule-based analysis, no LLM call
+    // Estimates already recorded in ClickUp win over analyzed ones
+    if (analysisMode === 'heuristic') {
+      return withClickUpEstimate(ticket, analyzeTicketHeuristically(ticket, codebaseMap));
+    }
 
-    // Build user prompt with ticket and codebase context
+    // Build user prompt with ticket and the codebase entries that fit the token budget,
+    // starting with files retrieved from the embedding index
+    const related = codebaseIndex ? await retrieveCandidateFiles(ticket, codebaseIndex) : [];
+    const context = selectCodebaseContext(ticket, codebaseMap, resolveContextTokens(contextTokens), related);
     const userPrompt = `Analyze this ticket and map it to the codebase:
 
 TICKET:
@@ -48,39 +62,25 @@ Priority: ${ticket.priority?.priority || 'Not set'}
 Tags: ${ticket.tags?.map(t => t.name).join(', ') || 'None'}
 URL: ${ticket.url || 'N/A'}
 
-CODEBASE STRUCTURE:
-Routes:
-${codebaseMap.routes.map(r => `  ${r.path}: [${r.files.join(', ')}]`).join('\n')}
-
-Components:
-${codebaseMap.components.slice(0, 50).join('\n  ')}${codebaseMap.components.length > 50 ? '\n  ... and more' : ''}
+CODEBASE STRUCTURE (most relevant files first):
+${context.text}
 
-Server Actions:
-${codebaseMap.actions.join('\n  ')}
-
-Provide your analysis as a JSON object with: qualityScore, qualityGaps, affectedFiles, complexityTag, suggestedApproach.`;
+Provide your analysis as a JSON object with: qualityScore, qualityGaps, affectedFiles, complexityTag, suggestedApproach, estimate: { points, confidence }.`;
 
     try {
-      const { object: analysis } = await generateObject({
-        model: openai('gpt-4o'),
-        schema: TicketAnalysisSchema,
+      const analysis = await generateTicketAnalysis({
         system: SYSTEM_PROMPT,
         prompt: userPrompt,
-        temperature: 0.3, // Lower temperature for more consistent analysis
+        llm,
+        codebaseMap,
+        relatedFiles: related.map(f => f.path),
       });
-
-      return analysis;
+      return withClickUpEstimate(ticket, { ...analysis, contextFiles: context.included.map(e => e.path) });
     } catch (error) {
       console.error('Error analyzing ticket:', error);
-      
-      // Fallback to basic analysis if LLM fails
-      return {
-        qualityScore: 3,
-        qualityGaps: ['Unable to perform detailed analysis due to technical error'],
-        affectedFiles: [],
-        complexityTag: 'feature' as const,
-        suggestedApproach: 'Review ticket requirements and identify relevant files manually',
-      };
+
+      // Fall back to the rule-based analyzer if the LLM fails
+      return withClickUpEstimate(ticket, analyzeTicketHeuristically(ticket, codebaseMap));
     }
   },
 });
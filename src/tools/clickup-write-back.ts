@@ -0,0 +1,39 @@
+import { createTool } from '@mastra/core/tools';
+import {
+  ClickUpWriteBackInputSchema,
+  WriteBackOptionsSchema,
+  WriteBackResultSchema,
+} from '../types/index.js';
+import { createClickUpClient, resolveCustomFieldId, writeBackAnalysis } from '../clickup/index.js';
+import { assertListAllowed, resolveClickUpCredentials, resolveListId } from '../auth/index.js';
+
+export const clickupWriteBackTool = createTool({
+  id: 'clickup-write-back',
+  description: 'Post a ticket analysis back to ClickUp as a comment (updated in place on re-runs), optionally set a quality score custom field and tag low-quality tickets for refinement',
+  inputSchema: ClickUpWriteBackInputSchema,
+  outputSchema: WriteBackResultSchema,
+  execute: async (inputData, context) => {
+    const { ticket, analysis, listId: inputListId } = inputData;
+    const options = WriteBackOptionsSchema.parse({ ...inputData.options, enabled: true });
+
+    const credentials = resolveClickUpCredentials(context);
+    const client = createClickUpClient({ apiToken: credentials.token });
+
+    // The ticket comes from the caller, so check the list it really lives in
+    if (credentials.allowedListIds) {
+      assertListAllowed(credentials, await client.getTaskListId(ticket.id));
+    }
+
+    let qualityScoreFieldId: string | undefined;
+    if (options.qualityScoreField) {
+      const listId = resolveListId(credentials, inputListId);
+      qualityScoreFieldId = await resolveCustomFieldId(client, listId, options.qualityScoreField);
+    }
+
+    return writeBackAnalysis(client, ticket, analysis, {
+      refinementThreshold: options.refinementThreshold,
+      refinementTag: options.refinementTag,
+      qualityScoreFieldId,
+    });
+  },
+});
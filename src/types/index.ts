@@ -3,6 +3,7 @@ import { z } from 'zod';
 // ClickUp Task Schema
 export const ClickUpTaskSchema = z.object({
   id: z.string(),
+  custom_id: z.string().nullable().optional(), // Workspace task ids such as "DEV-123"
   name: z.string(),
   description: z.string().nullable().optional(),
   status: z.object({
@@ -25,29 +26,106 @@ export const ClickUpTaskSchema = z.object({
     tag_bg: z.string().optional(),
   })).optional(),
   due_date: z.string().nullable().optional(),
+  time_estimate: z.number().nullable().optional(), // Milliseconds
+  points: z.number().nullable().optional(), // Sprint points, when enabled on the workspace
   custom_fields: z.array(z.any()).optional(),
+  dependencies: z.array(z.object({
+    task_id: z.string(), // Waits on depends_on
+    depends_on: z.string(),
+  }).passthrough()).optional(),
+  linked_tasks: z.array(z.object({
+    task_id: z.string(),
+    link_id: z.string(),
+  }).passthrough()).optional(),
   url: z.string().optional(),
 });
 
 export type ClickUpTask = z.infer<typeof ClickUpTaskSchema>;
 
+// Pagination info for a multi-page ClickUp task fetch
+export const ClickUpPageInfoSchema = z.object({
+  pagesRead: z.number(),
+  truncated: z.boolean(),
+});
+
+export type ClickUpPageInfo = z.infer<typeof ClickUpPageInfoSchema>;
+
+// Default cap on pages read per list (ClickUp returns up to 100 tasks per page)
+export const DEFAULT_CLICKUP_MAX_PAGES = 10;
+
 // Codebase Map Schema
+export const ExportSymbolSchema = z.object({
+  name: z.string(),
+  kind: z.enum(['component', 'action', 'handler', 'metadata', 'function', 'value']),
+});
+
+// Project-internal imports: imports[i] lists the indexes of the files that files[i] imports
+export const DependencyGraphSchema = z.object({
+  files: z.array(z.string()),
+  imports: z.array(z.array(z.number().int().min(0))),
+});
+
 export const RouteInfoSchema = z.object({
   path: z.string(),
+  dir: z.string().optional(), // Directory of the route files; older maps assume app/<path>
   files: z.array(z.string()),
   exports: z.array(z.string()).optional(),
 });
 
 export const CodebaseMapSchema = z.object({
+  framework: z.string().optional(), // e.g. 'next-app', 'next-app+next-pages', 'sveltekit'
   routes: z.array(RouteInfoSchema),
   components: z.array(z.string()),
   actions: z.array(z.string()),
+  exports: z.record(z.string(), z.array(ExportSymbolSchema)).optional(), // Exported symbols by file path
+  graph: DependencyGraphSchema.optional(),
   scannedAt: z.string().optional(),
 });
 
+// Local vector index built by the scanner next to the codebase map
+export const IndexChunkSchema = z.object({
+  file: z.string(),
+  kind: z.enum(['summary', 'code']), // File summary (path, exports, header comment) or a slice of its source
+  startLine: z.number().int().optional(),
+  vector: z.array(z.number()),
+});
+
+export const CodebaseIndexSchema = z.object({
+  version: z.literal(1),
+  embeddings: z.string(), // "hashing" or "provider:model", e.g. "openai:text-embedding-3-small"
+  dimensions: z.number().int().positive(),
+  idf: z.array(z.number()).optional(), // Per-bucket weights for the hashing provider
+  chunks: z.array(IndexChunkSchema),
+  builtAt: z.string().optional(),
+});
+
+export type IndexChunk = z.infer<typeof IndexChunkSchema>;
+export type CodebaseIndex = z.infer<typeof CodebaseIndexSchema>;
+
+export type ExportSymbol = z.infer<typeof ExportSymbolSchema>;
+export type DependencyGraph = z.infer<typeof DependencyGraphSchema>;
 export type RouteInfo = z.infer<typeof RouteInfoSchema>;
 export type CodebaseMap = z.infer<typeof CodebaseMapSchema>;
 
+// An affectedFiles entry checked against the codebase map
+export const FileMatchSchema = z.object({
+  path: z.string(),
+  confidence: z.number().min(0).max(1), // 1 for exact matches, similarity for fuzzy corrections
+  correctedFrom: z.string().optional(), // Original suggestion when the path was fuzzy-corrected
+});
+
+export type FileMatch = z.infer<typeof FileMatchSchema>;
+
+// Effort estimate; capacity planning works in points
+export const EstimateSchema = z.object({
+  points: z.number().min(0),
+  hours: z.number().min(0).optional(),
+  confidence: z.number().min(0).max(1),
+  source: z.enum(['llm', 'heuristic', 'clickup']).optional(),
+});
+
+export type Estimate = z.infer<typeof EstimateSchema>;
+
 // Ticket Analysis Schema
 export const TicketAnalysisSchema = z.object({
   qualityScore: z.number().min(1).max(5),
@@ -55,10 +133,31 @@ export const TicketAnalysisSchema = z.object({
   affectedFiles: z.array(z.string()),
   complexityTag: z.enum(['fix', 'feature']),
   suggestedApproach: z.string(),
+  estimate: EstimateSchema.optional(),
+  source: z.enum(['llm', 'heuristic']).optional(), // Set by the analyzer, never by the model
+  fileMatches: z.array(FileMatchSchema).optional(), // Set by affectedFiles validation
+  hallucinatedFiles: z.array(z.string()).optional(), // Suggested paths not found in the codebase map
+  dependentFiles: z.array(z.string()).optional(), // Files that transitively import an affected file (blast radius)
+  contextFiles: z.array(z.string()).optional(), // Codebase entries included in the prompt, for debugging mappings
 });
 
 export type TicketAnalysis = z.infer<typeof TicketAnalysisSchema>;
 
+// The fields the LLM is asked to produce
+export const LlmTicketAnalysisSchema = TicketAnalysisSchema.omit({
+  source: true,
+  fileMatches: true,
+  hallucinatedFiles: true,
+  dependentFiles: true,
+  contextFiles: true,
+}).extend({
+  estimate: EstimateSchema.pick({ points: true, confidence: true }),
+});
+
+export const AnalysisModeSchema = z.enum(['llm', 'heuristic']);
+
+export type AnalysisMode = z.infer<typeof AnalysisModeSchema>;
+
 // Analyzed Ticket (combines ClickUp task with analysis)
 export const AnalyzedTicketSchema = z.object({
   ticket: ClickUpTaskSchema,
@@ -67,12 +166,22 @@ export const AnalyzedTicketSchema = z.object({
 
 export type AnalyzedTicket = z.infer<typeof AnalyzedTicketSchema>;
 
+// How many analyses in a sync were reused from the cache vs produced fresh
+export const AnalysisStatsSchema = z.object({
+  cached: z.number(),
+  fresh: z.number(),
+});
+
+export type AnalysisStats = z.infer<typeof AnalysisStatsSchema>;
+
 // Sprint Data Schema
 export const SprintMetadataSchema = z.object({
   syncTimestamp: z.string(),
   ticketCount: z.number(),
   listId: z.string(),
   listName: z.string().optional(),
+  pagesRead: z.number().optional(),
+  truncated: z.boolean().optional(),
 });
 
 export const SprintDataSchema = z.object({
@@ -83,21 +192,48 @@ export const SprintDataSchema = z.object({
 export type SprintMetadata = z.infer<typeof SprintMetadataSchema>;
 export type SprintData = z.infer<typeof SprintDataSchema>;
 
-// Webhook Payload Schema
-export const WebhookPayloadSchema = z.object({
-  sprintMarkdown: z.string(),
-  tickets: z.array(AnalyzedTicketSchema),
-  metadata: SprintMetadataSchema,
-  signature: z.string().optional(),
+// What changed in a list between two syncs
+const TicketRefSchema = z.object({
+  taskId: z.string(),
+  name: z.string(),
 });
 
-export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+export const SprintDiffSchema = z.object({
+  previousSyncTimestamp: z.string(),
+  added: z.array(TicketRefSchema),
+  closed: z.array(TicketRefSchema.extend({ status: z.string() })), // No longer in the list; status is the last one seen
+  statusChanges: z.array(TicketRefSchema.extend({ from: z.string(), to: z.string() })),
+  priorityChanges: z.array(TicketRefSchema.extend({ from: z.string().nullable(), to: z.string().nullable() })),
+  qualityChanges: z.array(TicketRefSchema.extend({ from: z.number(), to: z.number(), delta: z.number() })),
+});
+
+export type SprintDiff = z.infer<typeof SprintDiffSchema>;
+
+// LLM configuration: provider plus per-stage model specs ("provider:model" or bare model id)
+export const LlmProviderSchema = z.enum(['openai', 'anthropic', 'azure', 'openai-compatible', 'mock']);
+
+export const LlmStageSchema = z.enum(['triage', 'approach', 'agent']);
+
+export const LlmConfigSchema = z.object({
+  provider: LlmProviderSchema.optional(),
+  model: z.string().optional(),
+  stages: z.object({
+    triage: z.string().optional(),
+    approach: z.string().optional(),
+    agent: z.string().optional(),
+  }).optional(),
+});
+
+export type LlmProvider = z.infer<typeof LlmProviderSchema>;
+export type LlmStage = z.infer<typeof LlmStageSchema>;
+export type LlmConfig = z.infer<typeof LlmConfigSchema>;
 
 // Tool Input Schemas
 export const ClickUpSyncInputSchema = z.object({
   listId: z.string().optional(),
   includeSubtasks: z.boolean().default(true),
   statuses: z.array(z.string()).optional(),
+  maxPages: z.number().int().min(1).default(DEFAULT_CLICKUP_MAX_PAGES),
 });
 
 export type ClickUpSyncInput = z.infer<typeof ClickUpSyncInputSchema>;
@@ -105,23 +241,265 @@ export type ClickUpSyncInput = z.infer<typeof ClickUpSyncInputSchema>;
 export const AnalyzeTicketInputSchema = z.object({
   ticket: ClickUpTaskSchema,
   codebaseMap: CodebaseMapSchema,
+  llm: LlmConfigSchema.optional(),
+  analysisMode: AnalysisModeSchema.default('llm'),
+  contextTokens: z.number().int().min(100).optional(), // Prompt budget for codebase context
+  codebaseIndex: CodebaseIndexSchema.optional(), // Enables embedding retrieval of candidate files
 });
 
 export type AnalyzeTicketInput = z.infer<typeof AnalyzeTicketInputSchema>;
 
+// Capacity planning: per-assignee capacity in points (ClickUp usernames, or "unassigned")
+export const PlanningOptionsSchema = z.object({
+  capacity: z.record(z.string(), z.number().min(0)),
+  stretchRatio: z.number().min(0).default(0.2), // Stretch goals may go this far past capacity
+  hoursPerPoint: z.number().positive().default(4),
+  pointsField: z.string().optional(), // Custom field name holding points; defaults to "Story Points"/"Points"
+});
+
+export type PlanningOptions = z.infer<typeof PlanningOptionsSchema>;
+
+export const PlanBucketSchema = z.enum(['committed', 'stretch', 'backlog']);
+
+export type PlanBucket = z.infer<typeof PlanBucketSchema>;
+
+export const AssigneePlanSchema = z.object({
+  assignee: z.string(),
+  capacity: z.number(),
+  assigned: z.number(), // Points of every ticket assigned to this person
+  committed: z.number(),
+  stretch: z.number(),
+  backlog: z.number(),
+  overAllocated: z.boolean(),
+});
+
+export const SprintPlanSchema = z.object({
+  assignees: z.array(AssigneePlanSchema),
+  tickets: z.array(z.object({
+    taskId: z.string(),
+    assignee: z.string(),
+    points: z.number(),
+    bucket: PlanBucketSchema,
+  })),
+});
+
+// Relations between tickets in one sprint
+export const TicketDependencySchema = z.object({
+  taskId: z.string(),
+  dependsOn: z.string(),
+  source: z.enum(['clickup', 'mention']),
+});
+
+export const FileConflictSchema = z.object({
+  taskIds: z.tuple([z.string(), z.string()]),
+  files: z.array(z.string()),
+});
+
+export const SprintDependenciesSchema = z.object({
+  dependencies: z.array(TicketDependencySchema),
+  related: z.array(z.tuple([z.string(), z.string()])), // ClickUp links and undirected mentions
+  conflicts: z.array(FileConflictSchema), // Tickets sharing affected files
+  cycles: z.array(z.array(z.string())),
+});
+
+export type TicketDependency = z.infer<typeof TicketDependencySchema>;
+export type FileConflict = z.infer<typeof FileConflictSchema>;
+export type SprintDependencies = z.infer<typeof SprintDependenciesSchema>;
+
+export type AssigneePlan = z.infer<typeof AssigneePlanSchema>;
+export type SprintPlan = z.infer<typeof SprintPlanSchema>;
+
+// Sprint file layout: ticket order and optional sections
+export const SortStrategySchema = z.enum(['priority', 'dueDate', 'quality', 'estimate', 'weighted']);
+
+export type SortStrategy = z.infer<typeof SortStrategySchema>;
+
+// Relative weights for the 'weighted' strategy; omitted weights use the defaults
+export const SortWeightsSchema = z.object({
+  priority: z.number().min(0).optional(),
+  quality: z.number().min(0).optional(),
+  estimate: z.number().min(0).optional(), // Smaller tickets score higher
+  dueDate: z.number().min(0).optional(), // Sooner due dates score higher
+});
+
+export type SortWeights = z.infer<typeof SortWeightsSchema>;
+
+export const GroupBySchema = z.enum(['assignee', 'status', 'tag', 'routeArea', 'complexity']);
+
+export type GroupBy = z.infer<typeof GroupBySchema>;
+
+// Markdown is always rendered; the others are added to the output on request
+export const OutputFormatSchema = z.enum(['markdown', 'json', 'html', 'csv', 'cursor-rules']);
+
+export type OutputFormat = z.infer<typeof OutputFormatSchema>;
+
 export const SprintFormatterInputSchema = z.object({
   tickets: z.array(AnalyzedTicketSchema),
   metadata: SprintMetadataSchema,
+  plan: SprintPlanSchema.optional(),
+  sortBy: SortStrategySchema.optional(), // Default 'priority'
+  sortWeights: SortWeightsSchema.optional(),
+  groupBy: GroupBySchema.optional(),
+  template: z.string().optional(), // Handlebars-style sprint file template; defaults to the built-in layout
+  formats: z.array(OutputFormatSchema).optional(), // Artifacts besides the markdown
+  previous: SprintDataSchema.optional(), // Earlier sync of the same list; adds a "Changes since last sync" section
 });
 
 export type SprintFormatterInput = z.infer<typeof SprintFormatterInputSchema>;
 
+// Stable machine-readable sprint document; bump the version on breaking changes
+export const SPRINT_DOCUMENT_VERSION = 1;
+
+export const SprintDocumentSchema = z.object({
+  schemaVersion: z.literal(SPRINT_DOCUMENT_VERSION),
+  generatedAt: z.string(),
+  metadata: SprintMetadataSchema,
+  summary: z.object({
+    ticketCount: z.number(),
+    fixes: z.number(),
+    features: z.number(),
+    averageQuality: z.number(),
+    totalPoints: z.number(),
+  }),
+  ordering: z.object({
+    sortBy: SortStrategySchema,
+    groupBy: GroupBySchema.optional(),
+  }),
+  tickets: z.array(z.object({
+    position: z.number(), // 1-based, as in "#3" references
+    group: z.string().optional(),
+    ticket: ClickUpTaskSchema,
+    analysis: TicketAnalysisSchema,
+    plan: SprintPlanSchema.shape.tickets.element.omit({ taskId: true }).optional(),
+  })),
+  dependencies: SprintDependenciesSchema,
+  plan: SprintPlanSchema.optional(),
+  changes: SprintDiffSchema.optional(),
+});
+
+export type SprintDocument = z.infer<typeof SprintDocumentSchema>;
+
+// Cursor project rule (.mdc) for one ticket
+export const CursorRuleFileSchema = z.object({
+  taskId: z.string(),
+  filename: z.string(),
+  content: z.string(),
+});
+
+export type CursorRuleFile = z.infer<typeof CursorRuleFileSchema>;
+
+export const SprintArtifactsSchema = z.object({
+  json: SprintDocumentSchema.optional(),
+  html: z.string().optional(),
+  csv: z.string().optional(),
+  cursorRules: z.array(CursorRuleFileSchema).optional(),
+});
+
+export type SprintArtifacts = z.infer<typeof SprintArtifactsSchema>;
+
+// Webhook Payload Schema
+export const WebhookPayloadSchema = z.object({
+  sprintMarkdown: z.string(),
+  tickets: z.array(AnalyzedTicketSchema),
+  metadata: SprintMetadataSchema,
+  dependencies: SprintDependenciesSchema.optional(),
+  plan: SprintPlanSchema.optional(),
+  artifacts: SprintArtifactsSchema.optional(), // Requested via formats
+  changes: SprintDiffSchema.optional(), // Since the previous sync of the list, when one is known
+  signature: z.string().optional(),
+});
+
+export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
+
+// ClickUp write-back (analysis comments, quality field, refinement tag)
+export const WriteBackOptionsSchema = z.object({
+  enabled: z.boolean().default(false),
+  qualityScoreField: z.string().optional(), // Custom field name or id; skipped when unset
+  refinementThreshold: z.number().min(1).max(5).default(3),
+  refinementTag: z.string().default('needs-refinement'),
+});
+
+export type WriteBackOptions = z.infer<typeof WriteBackOptionsSchema>;
+
+export const WriteBackResultSchema = z.object({
+  taskId: z.string(),
+  comment: z.enum(['created', 'updated', 'unchanged']),
+  qualityScoreFieldSet: z.boolean(),
+  refinementTag: z.enum(['added', 'removed', 'unchanged']),
+  error: z.string().optional(),
+});
+
+export type WriteBackResult = z.infer<typeof WriteBackResultSchema>;
+
+export const ClickUpWriteBackInputSchema = z.object({
+  ticket: ClickUpTaskSchema,
+  analysis: TicketAnalysisSchema,
+  listId: z.string().optional(),
+  options: WriteBackOptionsSchema.omit({ enabled: true }).optional(),
+});
+
+export type ClickUpWriteBackInput = z.infer<typeof ClickUpWriteBackInputSchema>;
+
+// Webhook signing secret; the id travels with each signature so receivers can rotate
+export const WebhookSigningKeySchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9._-]+$/),
+  secret: z.string().min(1), // May be "enc:v1:..."
+});
+
+export type WebhookSigningKey = z.infer<typeof WebhookSigningKeySchema>;
+
+// MCP authentication: each hashed API key belongs to a tenant (team)
+export const TenantSchema = z.object({
+  id: z.string(),
+  name: z.string().optional(),
+  clickupToken: z.string().optional(), // The team's own ClickUp token instead of CLICKUP_API_TOKEN; may be "enc:v1:..."
+  defaultListId: z.string().optional(), // Used when a call has no listId, instead of CLICKUP_LIST_ID
+  listIds: z.array(z.string()).optional(), // ClickUp lists this tenant may use; any when omitted
+  webhookUrls: z.array(z.string().url()).optional(), // Allowed webhook URL prefixes; any public URL when omitted
+  allowPrivateWebhooks: z.boolean().optional(), // Allow webhooks to loopback/private addresses (never cloud metadata)
+  webhookSecrets: z.array(WebhookSigningKeySchema).optional(), // Every entry signs; list the newest first
+  legacyWebhookSignature: z.boolean().optional(), // Also send the body-only signature; off by default with webhookSecrets
+});
+
+export type Tenant = z.infer<typeof TenantSchema>;
+
+export const ApiKeySchema = z.object({
+  id: z.string(), // Shown in logs instead of the key
+  hash: z.string().regex(/^[0-9a-f]{64}$/i), // SHA-256 of the key, hex
+  tenantId: z.string(),
+  revoked: z.boolean().optional(),
+});
+
+export type ApiKey = z.infer<typeof ApiKeySchema>;
+
+export const AuthConfigSchema = z.object({
+  keys: z.array(ApiKeySchema),
+  tenants: z.array(TenantSchema),
+});
+
+export type AuthConfig = z.infer<typeof AuthConfigSchema>;
+
 // Workflow Input Schema
 export const SprintSyncInputSchema = z.object({
   listId: z.string().optional(),
   codebaseMap: CodebaseMapSchema,
   webhookUrl: z.string().url(),
   webhookSecret: z.string().optional(),
+  statuses: z.array(z.string()).optional(),
+  maxPages: z.number().int().min(1).optional(),
+  writeBack: WriteBackOptionsSchema.optional(),
+  force: z.boolean().optional(), // Re-analyze every ticket, bypassing the analysis cache
+  llm: LlmConfigSchema.optional(),
+  analysisMode: AnalysisModeSchema.optional(),
+  contextTokens: z.number().int().min(100).optional(), // Prompt budget for codebase context
+  codebaseIndex: CodebaseIndexSchema.optional(), // Enables embedding retrieval of candidate files
+  planning: PlanningOptionsSchema.optional(),
+  sortBy: SortStrategySchema.optional(),
+  sortWeights: SortWeightsSchema.optional(),
+  groupBy: GroupBySchema.optional(),
+  template: z.string().optional(),
+  formats: z.array(OutputFormatSchema).optional(),
+  previous: SprintDataSchema.optional(), // e.g. the receiver's .ai/sprint/latest/sprint-data.json; defaults to the job store's last snapshot
 });
 
 export type SprintSyncInput = z.infer<typeof SprintSyncInputSchema>;
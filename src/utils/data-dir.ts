@@ -0,0 +1,9 @@
+import * as os from 'os';
+import * as path from 'path';
+
+// Default location for file-backed stores. Serverless filesystems are read-only
+// outside the temp dir, so deployments fall back to it.
+export function defaultDataPath(filename: string): string {
+  const baseDir = process.env.VERCEL ? os.tmpdir() : path.join(process.cwd(), '.data');
+  return path.join(baseDir, filename);
+}
@@ -0,0 +1,28 @@
+// Minimal Redis-over-REST client (Vercel KV / Upstash): POST a command array, read `result`
+export class KvClient {
+  constructor(
+    private readonly url: string,
+    private readonly token: string,
+  ) {}
+
+  async command<T>(...args: (string | number)[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+    });
+
+    if (!response.ok) {
+      throw new Error(`KV request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { result?: T; error?: string };
+    if (data.error) {
+      throw new Error(`KV error: ${data.error}`);
+    }
+    return data.result as T;
+  }
+}
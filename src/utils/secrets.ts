@@ -0,0 +1,27 @@
+// Credentials resolved at runtime are registered here so error messages and logs
+// can be scrubbed before they leave the process (job records, webhook payloads)
+
+const REDACTED = '[redacted]';
+// Per-request tokens (X-ClickUp-Token) are registered too, so only the most recently
+// used secrets are kept; configured ones are registered again every time they're used
+const MAX_SECRETS = 200;
+const secrets = new Set<string>();
+
+export function registerSecret(value: string | undefined): void {
+  if (!value || value.length < 8) return; // Short values would redact ordinary text
+
+  secrets.delete(value);
+  secrets.add(value);
+  // Set preserves insertion order, so the first value is the least recently used
+  while (secrets.size > MAX_SECRETS) {
+    secrets.delete(secrets.values().next().value as string);
+  }
+}
+
+export function redactSecrets(text: string): string {
+  let redacted = text;
+  secrets.forEach(secret => {
+    redacted = redacted.split(secret).join(REDACTED);
+  });
+  return redacted;
+}
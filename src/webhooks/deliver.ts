@@ -0,0 +1,132 @@
+import * as http from 'http';
+import * as https from 'https';
+import type { LookupFunction } from 'net';
+import type { WebhookSigningKey } from '../types/index.js';
+import { WebhookBlockedError } from './errors.js';
+import { legacySignatureFor, newDeliveryId, signWebhook } from './signing.js';
+import { checkWebhookTarget, DEFAULT_WEBHOOK_POLICY, type ResolvedTarget, type WebhookTargetPolicy } from './target-policy.js';
+
+export interface WebhookResponse {
+  status: number;
+  statusText: string;
+}
+
+// Connects only to the addresses checkWebhookTarget validated, so a second DNS
+// answer can't point the request somewhere else
+function pinnedLookup(target: ResolvedTarget): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: ResolvedTarget['addresses']) => void)(null, target.addresses);
+    } else {
+      callback(null, target.addresses[0].address, target.addresses[0].family);
+    }
+  };
+}
+
+function postOnce(
+  target: ResolvedTarget,
+  body: string,
+  headers: Record<string, string>,
+  policy: WebhookTargetPolicy,
+): Promise<WebhookResponse & { location?: string }> {
+  const transport = target.url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request(target.url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body).toString() },
+      lookup: pinnedLookup(target),
+      timeout: policy.timeoutMs,
+    }, res => {
+      // The body is never used; read at most maxResponseBytes of it, then hang up
+      let received = 0;
+      const done = () => resolve({
+        status: res.statusCode || 0,
+        statusText: res.statusMessage || '',
+        location: typeof res.headers.location === 'string' ? res.headers.location : undefined,
+      });
+      res.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > policy.maxResponseBytes) {
+          res.destroy();
+          done();
+        }
+      });
+      res.on('end', done);
+      res.on('error', reject);
+    });
+
+    req.on('timeout', () => req.destroy(new Error(`Webhook timed out after ${policy.timeoutMs}ms`)));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+// POSTs to a policy-checked target, following up to maxRedirects 307/308 redirects
+// (each one checked again). Throws WebhookBlockedError for refused targets.
+export async function postWebhook(
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  policy: WebhookTargetPolicy = DEFAULT_WEBHOOK_POLICY,
+): Promise<WebhookResponse> {
+  let target = await checkWebhookTarget(url, policy);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await postOnce(target, body, headers, policy);
+    if (response.status < 300 || response.status >= 400) {
+      return { status: response.status, statusText: response.statusText };
+    }
+
+    if ((response.status !== 307 && response.status !== 308) || !response.location) {
+      throw new WebhookBlockedError(target.url, `redirected with ${response.status}; only 307/308 redirects are followed`);
+    }
+    if (redirects >= policy.maxRedirects) {
+      throw new WebhookBlockedError(target.url, `more than ${policy.maxRedirects} redirects`);
+    }
+    target = await checkWebhookTarget(new URL(response.location, target.url), policy);
+  }
+}
+
+// Signs with every key (see signing.ts) and retries failures with backoff. Retries
+// keep the delivery id so receivers can drop duplicates; blocked targets are not retried.
+export async function deliverWebhook(
+  webhookUrl: string,
+  payload: unknown,
+  keys: WebhookSigningKey[] = [],
+  options: { policy?: WebhookTargetPolicy; retries?: number; deliveryId?: string; legacy?: boolean } = {},
+): Promise<string> {
+  const { policy = DEFAULT_WEBHOOK_POLICY, retries = 3, deliveryId = newDeliveryId(), legacy = legacySignatureFor(null) } = options;
+  const body = JSON.stringify(payload);
+  let lastError: Error | null = null;
+
+  for (let attempt = 0; attempt < retries; attempt++) {
+    try {
+      // Signed per attempt so the timestamp stays inside the receiver's tolerance
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Sprint-Pilot/1.0',
+        ...signWebhook(body, keys, { deliveryId, legacy }),
+      };
+
+      const response = await postWebhook(webhookUrl, body, headers, policy);
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`Webhook delivery failed: ${response.status} ${response.statusText}`);
+      }
+
+      console.log(`Webhook ${deliveryId} delivered successfully to ${new URL(webhookUrl).origin}`);
+      return deliveryId;
+    } catch (error) {
+      if (error instanceof WebhookBlockedError) throw error;
+      lastError = error instanceof Error ? error : new Error('Unknown error');
+      console.warn(`Webhook delivery attempt ${attempt + 1} failed:`, lastError.message);
+
+      if (attempt < retries - 1) {
+        const delay = Math.pow(2, attempt) * 1000;
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  throw lastError || new Error('Webhook delivery failed after retries');
+}
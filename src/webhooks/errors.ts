@@ -0,0 +1,26 @@
+// Errors raised while checking a webhook target
+
+// A webhook target refused by the target policy. Not retried; recorded on the job.
+export class WebhookBlockedError extends Error {
+  public readonly target: string; // Origin and path only; query strings can carry tokens
+
+  constructor(url: URL | string, public readonly reason: string) {
+    const target = typeof url === 'string' ? url : `${url.origin}${url.pathname}`;
+    super(`Webhook target ${target} blocked: ${reason}`);
+    this.name = 'WebhookBlockedError';
+    this.target = target;
+  }
+}
+
+// The target's host could not be resolved right now (ENOTFOUND, EAI_AGAIN, resolver
+// timeouts). Not a policy decision, so deliveries retry it like any other failure.
+export class WebhookUnreachableError extends Error {
+  public readonly target: string;
+
+  constructor(url: URL, public readonly code: string) {
+    const target = `${url.origin}${url.pathname}`;
+    super(`Webhook target ${target} did not resolve (${code})`);
+    this.name = 'WebhookUnreachableError';
+    this.target = target;
+  }
+}
@@ -0,0 +1,12 @@
+export { deliverWebhook, postWebhook } from './deliver.js';
+export type { WebhookResponse } from './deliver.js';
+export { WebhookBlockedError, WebhookUnreachableError } from './errors.js';
+export { legacySignatureFor, newDeliveryId, SIGNATURE_VERSION, signaturePayload, signWebhook, WEBHOOK_HEADERS } from './signing.js';
+export {
+  blockedAddressReason,
+  checkWebhookTarget,
+  DEFAULT_WEBHOOK_POLICY,
+  matchesAllowedUrl,
+  webhookPolicyFor,
+} from './target-policy.js';
+export type { ResolvedTarget, WebhookTargetPolicy } from './target-policy.js';
@@ -0,0 +1,66 @@
+import { createHmac, randomUUID } from 'crypto';
+import type { Tenant, WebhookSigningKey } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+
+// Webhook signature headers. The v1 scheme signs "<timestamp>.<deliveryId>.<body>"
+// with every active key, so a receiver can reject stale or replayed deliveries and
+// keep verifying while a secret is rotated:
+//
+//   X-Sprint-Pilot-Delivery:   unique per delivery, the same across retries
+//   X-Sprint-Pilot-Timestamp:  unix seconds when the attempt was signed
+//   X-Sprint-Pilot-Signatures: v1=<keyId>:<hex>, v1=<keyId>:<hex>
+//
+// The legacy X-Sprint-Pilot-Signature (sha256=<hex> of the body, first key only) is
+// still sent for receivers that predate v1; see legacySignatureFor.
+
+export const SIGNATURE_VERSION = 'v1';
+
+export const WEBHOOK_HEADERS = {
+  delivery: 'X-Sprint-Pilot-Delivery',
+  timestamp: 'X-Sprint-Pilot-Timestamp',
+  signatures: 'X-Sprint-Pilot-Signatures',
+  legacySignature: 'X-Sprint-Pilot-Signature',
+} as const;
+
+// The legacy signature can be replayed without the v1 headers, so tenants with their own
+// webhookSecrets (v1 receivers) only get it when they set legacyWebhookSignature.
+// Everyone else gets it unless WEBHOOK_LEGACY_SIGNATURE=false.
+export function legacySignatureFor(tenant: Tenant | null): boolean {
+  if (tenant?.legacyWebhookSignature !== undefined) return tenant.legacyWebhookSignature;
+  if (tenant?.webhookSecrets?.length) return false;
+  return getEnvVar('WEBHOOK_LEGACY_SIGNATURE', false) !== 'false';
+}
+
+export function newDeliveryId(): string {
+  return randomUUID();
+}
+
+function hmac(secret: string, content: string): string {
+  return createHmac('sha256', secret).update(content).digest('hex');
+}
+
+export function signaturePayload(timestamp: number, deliveryId: string, body: string): string {
+  return `${timestamp}.${deliveryId}.${body}`;
+}
+
+export function signWebhook(
+  body: string,
+  keys: WebhookSigningKey[],
+  options: { deliveryId: string; timestamp?: number; legacy?: boolean },
+): Record<string, string> {
+  const { deliveryId, timestamp = Math.floor(Date.now() / 1000), legacy = true } = options;
+  const headers: Record<string, string> = {
+    [WEBHOOK_HEADERS.delivery]: deliveryId,
+    [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+  };
+  if (keys.length === 0) return headers;
+
+  const signed = signaturePayload(timestamp, deliveryId, body);
+  headers[WEBHOOK_HEADERS.signatures] = keys
+    .map(key => `${SIGNATURE_VERSION}=${key.id}:${hmac(key.secret, signed)}`)
+    .join(', ');
+  if (legacy) {
+    headers[WEBHOOK_HEADERS.legacySignature] = `sha256=${hmac(keys[0].secret, body)}`;
+  }
+  return headers;
+}
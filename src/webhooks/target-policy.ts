@@ -0,0 +1,135 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import type { Tenant } from '../types/index.js';
+import { getEnvVar } from '../utils/env.js';
+import { WebhookBlockedError, WebhookUnreachableError } from './errors.js';
+
+// Where sprint data may be POSTed. Targets must be http(s), match the allow-list when
+// there is one, and resolve only to public addresses unless private ones are allowed.
+// Cloud metadata endpoints are always refused.
+
+export interface WebhookTargetPolicy {
+  allowedUrls?: string[]; // URL prefixes (same origin, path under); any public URL when omitted
+  allowPrivate?: boolean; // Loopback, private and link-local addresses, e.g. a receiver on localhost
+  maxRedirects: number; // Only 307/308, which keep the POST body
+  maxResponseBytes: number;
+  timeoutMs: number;
+}
+
+export interface ResolvedTarget {
+  url: URL;
+  addresses: { address: string; family: 4 | 6 }[]; // Validated; connections are pinned to these
+}
+
+export const DEFAULT_WEBHOOK_POLICY: WebhookTargetPolicy = {
+  maxRedirects: 3,
+  maxResponseBytes: 64 * 1024,
+  timeoutMs: 10000,
+};
+
+const METADATA_HOSTS = new Set(['metadata.google.internal', 'metadata.goog', 'metadata']);
+
+const metadata = new BlockList();
+metadata.addAddress('169.254.169.254'); // AWS, GCP, Azure, OpenStack
+metadata.addAddress('169.254.170.2'); // ECS task metadata
+metadata.addAddress('100.100.100.200'); // Alibaba Cloud
+metadata.addAddress('fd00:ec2::254', 'ipv6'); // AWS IPv6
+
+const nonPublic = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([net, prefix]) => nonPublic.addSubnet(net as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([net, prefix]) => nonPublic.addSubnet(net as string, prefix as number, 'ipv6'));
+
+// IPv4 addresses embedded in IPv6 (::ffff:a.b.c.d mapped, 64:ff9b::/96 NAT64) are checked as IPv4
+function embeddedIPv4(address: string): string | null {
+  const mapped = /^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return mapped[1];
+  const hex = /^(?:::ffff:|64:ff9b::)([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(address);
+  if (!hex) return null;
+  const value = (parseInt(hex[1], 16) << 16) | parseInt(hex[2], 16);
+  return [24, 16, 8, 0].map(shift => (value >>> shift) & 255).join('.');
+}
+
+// Why an address may not receive webhooks, or null when it may
+export function blockedAddressReason(address: string, allowPrivate = false): string | null {
+  const v4 = isIP(address) === 6 ? embeddedIPv4(address) : null;
+  const [ip, type] = v4 ? [v4, 'ipv4' as const] : [address, isIP(address) === 6 ? 'ipv6' as const : 'ipv4' as const];
+
+  if (metadata.check(ip, type)) return `${address} is a cloud metadata address`;
+  if (!allowPrivate && nonPublic.check(ip, type)) return `${address} is a private, loopback or link-local address`;
+  return null;
+}
+
+// Same origin, and a path under the allowed one: "/hooks" allows "/hooks" and
+// "/hooks/team" but not "/hooks-evil"
+export function matchesAllowedUrl(url: URL | string, allowed: string[]): boolean {
+  let target: URL;
+  try {
+    target = typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    return false;
+  }
+  return allowed.some(prefix => {
+    const allowedUrl = new URL(prefix);
+    const base = allowedUrl.pathname.endsWith('/') ? allowedUrl.pathname : `${allowedUrl.pathname}/`;
+    return target.origin === allowedUrl.origin && (target.pathname === allowedUrl.pathname || target.pathname.startsWith(base));
+  });
+}
+
+// Tenant allow-lists win over WEBHOOK_ALLOWED_URLS; WEBHOOK_ALLOW_PRIVATE=true allows private addresses for everyone
+export function webhookPolicyFor(tenant?: Tenant | null): WebhookTargetPolicy {
+  const envUrls = getEnvVar('WEBHOOK_ALLOWED_URLS', false).split(',').map(url => url.trim()).filter(Boolean);
+  return {
+    ...DEFAULT_WEBHOOK_POLICY,
+    allowedUrls: tenant?.webhookUrls ?? (envUrls.length > 0 ? envUrls : undefined),
+    allowPrivate: Boolean(tenant?.allowPrivateWebhooks) || getEnvVar('WEBHOOK_ALLOW_PRIVATE', false) === 'true',
+  };
+}
+
+// Throws WebhookBlockedError with the reason when the policy refuses the target, and
+// WebhookUnreachableError when its host doesn't resolve
+export async function checkWebhookTarget(url: string | URL, policy: WebhookTargetPolicy): Promise<ResolvedTarget> {
+  let target: URL;
+  try {
+    target = typeof url === 'string' ? new URL(url) : url;
+  } catch {
+    throw new WebhookBlockedError(String(url), 'not a valid URL');
+  }
+
+  if (target.protocol !== 'https:' && target.protocol !== 'http:') {
+    throw new WebhookBlockedError(target, `${target.protocol} URLs are not allowed`);
+  }
+  if (target.username || target.password) {
+    throw new WebhookBlockedError(target, 'URLs with credentials are not allowed');
+  }
+  if (policy.allowedUrls && !matchesAllowedUrl(target, policy.allowedUrls)) {
+    throw new WebhookBlockedError(target, 'not in the allowed webhook URLs');
+  }
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (METADATA_HOSTS.has(hostname.replace(/\.$/, ''))) {
+    throw new WebhookBlockedError(target, `${hostname} is a cloud metadata host`);
+  }
+
+  let addresses: ResolvedTarget['addresses'];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) as 4 | 6 }];
+  } else {
+    try {
+      addresses = (await dns.lookup(hostname, { all: true, verbatim: true })) as ResolvedTarget['addresses'];
+    } catch (error) {
+      throw new WebhookUnreachableError(target, (error as NodeJS.ErrnoException).code || 'lookup failed');
+    }
+  }
+
+  // Every record must be acceptable, or a second lookup could pick a private one
+  for (const { address } of addresses) {
+    const reason = blockedAddressReason(address, policy.allowPrivate);
+    if (reason) throw new WebhookBlockedError(target, reason);
+  }
+  return { url: target, addresses };
+}
@@ -1,161 +1,123 @@
 import { createWorkflow, createStep } from '@mastra/core/workflows';
 import { z } from 'zod';
-import { SprintSyncInputSchema, ClickUpTaskSchema, AnalyzedTicketSchema, type ClickUpTask, type AnalyzedTicket, type SprintMetadata, type TicketAnalysis } from '../types/index.js';
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
-import { TicketAnalysisSchema, CodebaseMapSchema } from '../types/index.js';
-import { getEnvVar } from '../utils/env.js';
-import { createHmac } from 'crypto';
+import {
+  SprintSyncInputSchema,
+  ClickUpTaskSchema,
+  AnalyzedTicketSchema,
+  ClickUpPageInfoSchema,
+  AnalysisStatsSchema,
+  CodebaseMapSchema,
+  CodebaseIndexSchema,
+  LlmConfigSchema,
+  AnalysisModeSchema,
+  WriteBackOptionsSchema,
+  WriteBackResultSchema,
+  PlanningOptionsSchema,
+  SprintPlanSchema,
+  SprintFormatterInputSchema,
+  type ClickUpTask,
+  type ClickUpPageInfo,
+  type AnalyzedTicket,
+  type CodebaseMap,
+  type CodebaseIndex,
+  type LlmConfig,
+  type SprintMetadata,
+  type TicketAnalysis,
+  type WebhookPayload,
+  type WriteBackResult,
+} from '../types/index.js';
+import { assertListAllowed, resolveClickUpCredentials, resolveListId, resolveTenant, resolveWebhookSigningKeys, type ClickUpCredentials } from '../auth/index.js';
+import {
+  checkWebhookTarget,
+  deliverWebhook,
+  legacySignatureFor,
+  newDeliveryId,
+  webhookPolicyFor,
+  WebhookBlockedError,
+  WebhookUnreachableError,
+} from '../webhooks/index.js';
+import { queueFailedDelivery } from '../deliveries/index.js';
+import { createClickUpClient, resolveCustomFieldId, writeBackAnalysis, type GetTasksOptions } from '../clickup/index.js';
+import { analysisModelIds, generateTicketAnalysis } from '../llm/index.js';
+import { analyzeTicketHeuristically, resolveContextTokens, selectCodebaseContext } from '../analysis/index.js';
+import { retrieveCandidateFiles } from '../retrieval/index.js';
+import { planSprint, withClickUpEstimate } from '../planning/index.js';
+import { renderSprint, DEFAULT_SPRINT_TEMPLATE, type RenderedSprint } from '../render/index.js';
+import {
+  analysisCacheKey,
+  codebaseIndexVersion,
+  codebaseMapVersion,
+  lookupCachedAnalysis,
+  storeCachedAnalysis,
+} from '../cache/index.js';
+import {
+  loadSprintSnapshot,
+  recordJobStart,
+  recordJobUpdate,
+  recordJobCompletion,
+  recordBlockedWebhook,
+  recordSprintSnapshot,
+  trackJobStep,
+} from '../jobs/index.js';
+
+// Sprint file ordering, grouping, template, extra formats and the sync to diff against, carried through to the format step
+const SprintLayoutSchema = SprintFormatterInputSchema.pick({
+  sortBy: true, sortWeights: true, groupBy: true, template: true, formats: true, previous: true,
+});
 
 // ---- Inline tool logic to avoid v1 tool execute complexity in workflows ----
 
-const CLICKUP_API_BASE = 'https://api.clickup.com/api/v2';
-
-async function fetchClickUpTasks(listId?: string, includeSubtasks = true): Promise<{ tasks: ClickUpTask[]; listId: string }> {
-  const resolvedListId = listId || getEnvVar('CLICKUP_LIST_ID');
-  const apiToken = getEnvVar('CLICKUP_API_TOKEN');
-
-  const params = new URLSearchParams({
-    include_subtasks: includeSubtasks.toString(),
-  });
-
-  const url = `${CLICKUP_API_BASE}/list/${resolvedListId}/task?${params.toString()}`;
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'Authorization': apiToken,
-      'Content-Type': 'application/json',
-    },
-    signal: controller.signal,
-  });
-
-  clearTimeout(timeoutId);
-
-  if (!response.ok) {
-    throw new Error(`ClickUp API error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = (await response.json()) as { tasks: unknown[] };
-
-  const tasks: ClickUpTask[] = data.tasks.map((task: unknown) => {
-    try {
-      return ClickUpTaskSchema.parse(task);
-    } catch {
-      const t = task as Record<string, unknown>;
-      return {
-        id: String(t.id),
-        name: String(t.name || 'Untitled Task'),
-        description: (t.description as string) || null,
-        status: { status: (t.status as Record<string, string>)?.status || 'unknown' },
-        assignees: (t.assignees as unknown[]) || [],
-        priority: (t.priority as Record<string, string>) || null,
-        tags: (t.tags as unknown[]) || [],
-        due_date: (t.due_date as string) || null,
-        custom_fields: (t.custom_fields as unknown[]) || [],
-        url: (t.url as string) || '',
-      } as ClickUpTask;
-    }
-  });
-
-  return { tasks, listId: resolvedListId };
+async function fetchClickUpTasks(
+  credentials: ClickUpCredentials,
+  listId?: string,
+  options: GetTasksOptions = {},
+): Promise<{ tasks: ClickUpTask[]; listId: string; pagination: ClickUpPageInfo }> {
+  const resolvedListId = resolveListId(credentials, listId);
+  const { tasks, pagination } = await createClickUpClient({ apiToken: credentials.token }).getTasks(resolvedListId, options);
+  return { tasks, listId: resolvedListId, pagination };
 }
 
 const ANALYSIS_SYSTEM_PROMPT = `You are a senior software developer reviewing sprint tickets for quality and implementation planning.
-Assess quality 1-5, identify gaps, map to affected files, classify as fix/feature, provide implementation approach.`;
+Assess quality 1-5, identify gaps, map to affected files, classify as fix/feature, provide implementation approach,
+estimate effort in story points (1, 2, 3, 5, 8 or 13) with a 0-1 confidence.
+Exported symbols are listed in parentheses after each file; name the specific functions to change where you can.`;
 
+// Returns the analysis plus whether the LLM failed and the heuristic fallback was used
+// (fallbacks are never cached)
 async function analyzeTicket(
   ticket: ClickUpTask,
-  codebaseMap: { routes: { path: string; files: string[] }[]; components: string[]; actions: string[] },
-): Promise<TicketAnalysis> {
+  codebaseMap: CodebaseMap,
+  options: { llm?: LlmConfig; contextTokens?: number; codebaseIndex?: CodebaseIndex } = {},
+): Promise<{ analysis: TicketAnalysis; failed: boolean }> {
+  const { llm, contextTokens, codebaseIndex } = options;
+  const related = codebaseIndex ? await retrieveCandidateFiles(ticket, codebaseIndex) : [];
+  const context = selectCodebaseContext(ticket, codebaseMap, resolveContextTokens(contextTokens), related);
   const userPrompt = `Analyze this ticket:
 Title: ${ticket.name}
 Description: ${ticket.description || 'No description'}
 Status: ${ticket.status.status}
 Priority: ${ticket.priority?.priority || 'Not set'}
 
-CODEBASE:
-Routes: ${codebaseMap.routes.map(r => `${r.path}: [${r.files.join(', ')}]`).join('\n')}
-Components: ${codebaseMap.components.slice(0, 50).join(', ')}
-Actions: ${codebaseMap.actions.join(', ')}
+CODEBASE (most relevant files first):
+${context.text}
 
-Return JSON: { qualityScore, qualityGaps, affectedFiles, complexityTag, suggestedApproach }`;
+Return JSON: { qualityScore, qualityGaps, affectedFiles, complexityTag, suggestedApproach, estimate: { points, confidence } }`;
 
   try {
-    const { object } = await generateObject({
-      model: openai('gpt-4o'),
-      schema: TicketAnalysisSchema,
+    const analysis = await generateTicketAnalysis({
       system: ANALYSIS_SYSTEM_PROMPT,
       prompt: userPrompt,
-      temperature: 0.3,
+      llm,
+      codebaseMap,
+      relatedFiles: related.map(f => f.path),
     });
-    return object;
-  } catch {
-    return {
-      qualityScore: 3,
-      qualityGaps: ['Analysis failed - manual review needed'],
-      affectedFiles: [],
-      complexityTag: 'feature' as const,
-      suggestedApproach: 'Review ticket manually',
-    };
+    return { analysis: { ...analysis, contextFiles: context.included.map(e => e.path) }, failed: false };
+  } catch (error) {
+    console.warn(`Analysis failed for ticket ${ticket.id}, using heuristic fallback:`, error instanceof Error ? error.message : error);
+    return { analysis: analyzeTicketHeuristically(ticket, codebaseMap), failed: true };
   }
 }
 
-// Webhook delivery with retry logic
-async function deliverWebhook(
-  webhookUrl: string,
-  payload: unknown,
-  secret?: string,
-  retries = 3
-): Promise<void> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < retries; attempt++) {
-    try {
-      let signature: string | undefined;
-      if (secret) {
-        const hmac = createHmac('sha256', secret);
-        hmac.update(JSON.stringify(payload));
-        signature = `sha256=${hmac.digest('hex')}`;
-      }
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'Sprint-Pilot/1.0',
-      };
-
-      if (signature) {
-        headers['X-Sprint-Pilot-Signature'] = signature;
-      }
-
-      const response = await fetch(webhookUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Webhook delivery failed: ${response.status} ${response.statusText}`);
-      }
-
-      console.log(`Webhook delivered successfully to ${webhookUrl}`);
-      return;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error('Unknown error');
-      console.warn(`Webhook delivery attempt ${attempt + 1} failed:`, lastError.message);
-
-      if (attempt < retries - 1) {
-        const delay = Math.pow(2, attempt) * 1000;
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
-    }
-  }
-
-  throw lastError || new Error('Webhook delivery failed after retries');
-}
-
 // ---- Workflow Steps ----
 
 // Step 1: Fetch tasks from ClickUp
@@ -165,23 +127,65 @@ const fetchTasksStep = createStep({
   outputSchema: z.object({
     tasks: z.array(ClickUpTaskSchema),
     listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
     codebaseMap: CodebaseMapSchema,
     webhookUrl: z.string(),
     webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    force: z.boolean().optional(),
+    llm: LlmConfigSchema.optional(),
+    analysisMode: AnalysisModeSchema.optional(),
+    contextTokens: z.number().int().optional(),
+    codebaseIndex: CodebaseIndexSchema.optional(),
+    planning: PlanningOptionsSchema.optional(),
+    layout: SprintLayoutSchema,
   }),
-  execute: async ({ inputData }) => {
-    const { listId, codebaseMap, webhookUrl, webhookSecret } = inputData;
+  execute: async ({ inputData, runId, requestContext }) => {
+    const {
+      listId, codebaseMap, webhookUrl, webhookSecret, statuses, maxPages, writeBack, force, llm, analysisMode, contextTokens, codebaseIndex,
+      planning, sortBy, sortWeights, groupBy, template, formats, previous,
+    } = inputData;
+
+    const tenant = resolveTenant({ requestContext });
+    await recordJobStart(runId, listId || 'unknown', tenant?.id); // Updated once the default list is resolved
+
+    return trackJobStep(runId, 'fetch-tasks', async () => {
+      // Refuse a blocked webhook target before spending anything on analysis. A host that
+      // doesn't resolve right now isn't refused: delivery retries it and queues it if needed.
+      try {
+        await checkWebhookTarget(webhookUrl, webhookPolicyFor(tenant));
+      } catch (error) {
+        if (error instanceof WebhookUnreachableError) {
+          console.warn(`${error.message}; syncing anyway`);
+        } else {
+          if (error instanceof WebhookBlockedError) await recordBlockedWebhook(runId, error.target, error.reason);
+          throw error;
+        }
+      }
 
-    console.log('Fetching tasks from ClickUp...');
-    const result = await fetchClickUpTasks(listId);
+      console.log('Fetching tasks from ClickUp...');
+      // Each step that calls ClickUp resolves the token itself, so it never enters workflow state
+      const credentials = resolveClickUpCredentials({ requestContext });
+      const result = await fetchClickUpTasks(credentials, listId, { statuses, maxPages });
+      await recordJobUpdate(runId, { listId: result.listId });
 
-    return {
-      tasks: result.tasks,
-      listId: result.listId,
-      codebaseMap,
-      webhookUrl,
-      webhookSecret,
-    };
+      return {
+        tasks: result.tasks,
+        listId: result.listId,
+        pagination: result.pagination,
+        codebaseMap,
+        webhookUrl,
+        webhookSecret,
+        writeBack,
+        force,
+        llm,
+        analysisMode,
+        contextTokens,
+        codebaseIndex,
+        planning,
+        layout: { sortBy, sortWeights, groupBy, template, formats, previous },
+      };
+    }, output => output.tasks.length);
   },
 });
 
@@ -191,158 +195,371 @@ const analyzeTicketsStep = createStep({
   inputSchema: z.object({
     tasks: z.array(ClickUpTaskSchema),
     listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
     codebaseMap: CodebaseMapSchema,
     webhookUrl: z.string(),
     webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    force: z.boolean().optional(),
+    llm: LlmConfigSchema.optional(),
+    analysisMode: AnalysisModeSchema.optional(),
+    contextTokens: z.number().int().optional(),
+    codebaseIndex: CodebaseIndexSchema.optional(),
+    planning: PlanningOptionsSchema.optional(),
+    layout: SprintLayoutSchema,
   }),
   outputSchema: z.object({
     analyzedTickets: z.array(AnalyzedTicketSchema),
     listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
     webhookUrl: z.string(),
     webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    planning: PlanningOptionsSchema.optional(),
+    layout: SprintLayoutSchema,
   }),
-  execute: async ({ inputData }) => {
-    const { tasks, listId, codebaseMap, webhookUrl, webhookSecret } = inputData;
+  execute: async ({ inputData, runId }) => {
+    const {
+      tasks, listId, pagination, codebaseMap, webhookUrl, webhookSecret, writeBack, force, llm, analysisMode, contextTokens, codebaseIndex,
+      planning, layout,
+    } = inputData;
+
+    // Estimates already recorded in ClickUp win over analyzed (and cached) ones
+    const withEstimate = (ticket: ClickUpTask, analysis: TicketAnalysis) =>
+      withClickUpEstimate(ticket, analysis, planning?.pointsField, planning?.hoursPerPoint);
+
+    return trackJobStep(runId, 'analyze-tickets', async () => {
+      if (tasks.length === 0) {
+        return {
+          analyzedTickets: [],
+          listId,
+          pagination,
+          analysisStats: { cached: 0, fresh: 0 },
+          webhookUrl,
+          webhookSecret,
+          writeBack,
+          planning,
+          layout,
+        };
+      }
+
+      // Rule-based mode is instant and offline, so it bypasses both the LLM and the cache
+      if (analysisMode === 'heuristic') {
+        console.log(`Analyzing ${tasks.length} tickets with heuristic rules...`);
+        return {
+          analyzedTickets: tasks.map(ticket => ({ ticket, analysis: withEstimate(ticket, analyzeTicketHeuristically(ticket, codebaseMap)) })),
+          listId,
+          pagination,
+          analysisStats: { cached: 0, fresh: tasks.length },
+          webhookUrl,
+          webhookSecret,
+          writeBack,
+          planning,
+          layout,
+        };
+      }
+
+      const models = analysisModelIds(llm);
+      const modelLabel = models.triage === models.approach ? models.triage : `${models.triage} + ${models.approach}`;
+      console.log(`Analyzing ${tasks.length} tickets with ${modelLabel}${force ? ' (cache bypassed)' : ''}...`);
+
+      // Analyses from a different model, codebase map, index or context budget are never reused
+      const indexVersion = codebaseIndex ? codebaseIndexVersion(codebaseIndex) : 'no-index';
+      const mapVersion = `${codebaseMapVersion(codebaseMap)}:${indexVersion}:${models.triage}:${models.approach}:${resolveContextTokens(contextTokens)}`;
+      const batchSize = 5;
+      const results: AnalyzedTicket[] = [];
+      const analysisStats = { cached: 0, fresh: 0 };
+
+      for (let i = 0; i < tasks.length; i += batchSize) {
+        const batch = tasks.slice(i, i + batchSize);
+        const batchResults = await Promise.all(
+          batch.map(async (ticket) => {
+            const cacheKey = analysisCacheKey(ticket, mapVersion);
+
+            // Unchanged tickets reuse their previous analysis
+            const cached = force ? null : await lookupCachedAnalysis(cacheKey);
+            if (cached) {
+              analysisStats.cached++;
+              return { ticket, analysis: withEstimate(ticket, cached.analysis) };
+            }
+
+            const { analysis, failed } = await analyzeTicket(ticket, codebaseMap, { llm, contextTokens, codebaseIndex });
+            analysisStats.fresh++;
+            if (!failed) {
+              await storeCachedAnalysis(cacheKey, analysis);
+            }
+            return { ticket, analysis: withEstimate(ticket, analysis) };
+          })
+        );
+
+        results.push(...batchResults);
+        console.log(`Analyzed ${results.length}/${tasks.length} tickets...`);
+      }
+
+      console.log(`Analysis cache: ${analysisStats.cached} reused, ${analysisStats.fresh} fresh`);
+      await recordJobUpdate(runId, { cachedTickets: analysisStats.cached, freshTickets: analysisStats.fresh });
 
-    if (tasks.length === 0) {
       return {
-        analyzedTickets: [],
+        analyzedTickets: results,
         listId,
+        pagination,
+        analysisStats,
         webhookUrl,
         webhookSecret,
+        writeBack,
+        planning,
+        layout,
       };
-    }
+    }, output => output.analyzedTickets.length);
+  },
+});
 
-    console.log(`Analyzing ${tasks.length} tickets with GPT-4o...`);
+// Step 3: Split tickets into committed, stretch and backlog when capacity is given
+const planSprintStep = createStep({
+  id: 'plan-sprint',
+  inputSchema: z.object({
+    analyzedTickets: z.array(AnalyzedTicketSchema),
+    listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
+    webhookUrl: z.string(),
+    webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    planning: PlanningOptionsSchema.optional(),
+    layout: SprintLayoutSchema,
+  }),
+  outputSchema: z.object({
+    analyzedTickets: z.array(AnalyzedTicketSchema),
+    listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
+    webhookUrl: z.string(),
+    webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    plan: SprintPlanSchema.optional(),
+    layout: SprintLayoutSchema,
+  }),
+  execute: async ({ inputData, runId }) => {
+    const { planning, ...rest } = inputData;
+
+    if (!planning || rest.analyzedTickets.length === 0) {
+      return rest;
+    }
 
-    const batchSize = 5;
-    const results: AnalyzedTicket[] = [];
+    return trackJobStep(runId, 'plan-sprint', async () => {
+      const plan = planSprint(rest.analyzedTickets, planning, rest.layout.sortBy, rest.layout.sortWeights);
+      const overAllocated = plan.assignees.filter(a => a.overAllocated).map(a => a.assignee);
+      if (overAllocated.length > 0) {
+        console.warn(`Over-allocated: ${overAllocated.join(', ')}`);
+      }
+      return { ...rest, plan };
+    }, output => output.plan?.tickets.filter(t => t.bucket === 'committed').length ?? 0);
+  },
+});
 
-    for (let i = 0; i < tasks.length; i += batchSize) {
-      const batch = tasks.slice(i, i + batchSize);
-      const batchResults = await Promise.all(
-        batch.map(async (ticket) => {
-          const analysis = await analyzeTicket(ticket, codebaseMap);
-          return { ticket, analysis };
-        })
-      );
+// Step 4: Optionally write analyses back to ClickUp
+const writeBackStep = createStep({
+  id: 'write-back',
+  inputSchema: z.object({
+    analyzedTickets: z.array(AnalyzedTicketSchema),
+    listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
+    webhookUrl: z.string(),
+    webhookSecret: z.string().optional(),
+    writeBack: WriteBackOptionsSchema.optional(),
+    plan: SprintPlanSchema.optional(),
+    layout: SprintLayoutSchema,
+  }),
+  outputSchema: z.object({
+    analyzedTickets: z.array(AnalyzedTicketSchema),
+    listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
+    webhookUrl: z.string(),
+    webhookSecret: z.string().optional(),
+    writeBackResults: z.array(WriteBackResultSchema),
+    plan: SprintPlanSchema.optional(),
+    layout: SprintLayoutSchema,
+  }),
+  execute: async ({ inputData, runId, requestContext }) => {
+    const { writeBack, ...rest } = inputData;
 
-      results.push(...batchResults);
-      console.log(`Analyzed ${results.length}/${tasks.length} tickets...`);
+    if (!writeBack?.enabled || rest.analyzedTickets.length === 0) {
+      return { ...rest, writeBackResults: [] };
     }
 
-    return {
-      analyzedTickets: results,
-      listId,
-      webhookUrl,
-      webhookSecret,
-    };
+    return trackJobStep(runId, 'write-back', async () => {
+      console.log(`Writing ${rest.analyzedTickets.length} analyses back to ClickUp...`);
+      const credentials = resolveClickUpCredentials({ requestContext });
+      assertListAllowed(credentials, rest.listId);
+      const client = createClickUpClient({ apiToken: credentials.token });
+
+      const qualityScoreFieldId = writeBack.qualityScoreField
+        ? await resolveCustomFieldId(client, rest.listId, writeBack.qualityScoreField)
+        : undefined;
+
+      // Sequential to stay well inside ClickUp's per-token rate limit
+      const writeBackResults: WriteBackResult[] = [];
+      for (const { ticket, analysis } of rest.analyzedTickets) {
+        writeBackResults.push(await writeBackAnalysis(client, ticket, analysis, {
+          refinementThreshold: writeBack.refinementThreshold,
+          refinementTag: writeBack.refinementTag,
+          qualityScoreFieldId,
+        }));
+      }
+
+      const failed = writeBackResults.filter(r => r.error).length;
+      if (failed > 0) {
+        console.warn(`Write-back failed for ${failed}/${writeBackResults.length} tickets`);
+      }
+
+      return { ...rest, writeBackResults };
+    }, output => output.writeBackResults.filter(r => !r.error).length);
   },
 });
 
-// Step 3: Format sprint markdown and deliver webhook
+// A delivery that failed during the sync and was handed to the outbox
+const QueuedDeliverySchema = z.object({
+  id: z.string(),
+  status: z.enum(['pending', 'dead']),
+  nextAttemptAt: z.string().optional(),
+});
+
+// Step 5: Format sprint markdown and deliver webhook
 const formatAndDeliverStep = createStep({
   id: 'format-and-deliver',
   inputSchema: z.object({
     analyzedTickets: z.array(AnalyzedTicketSchema),
     listId: z.string(),
+    pagination: ClickUpPageInfoSchema,
+    analysisStats: AnalysisStatsSchema,
     webhookUrl: z.string(),
     webhookSecret: z.string().optional(),
+    writeBackResults: z.array(WriteBackResultSchema),
+    plan: SprintPlanSchema.optional(),
+    layout: SprintLayoutSchema,
   }),
   outputSchema: z.object({
     success: z.boolean(),
     ticketCount: z.number(),
     webhookDelivered: z.boolean(),
+    delivery: QueuedDeliverySchema.optional(),
+    analysisStats: AnalysisStatsSchema,
     message: z.string(),
   }),
-  execute: async ({ inputData }) => {
-    const { analyzedTickets, listId, webhookUrl, webhookSecret } = inputData;
+  execute: async ({ inputData, runId, requestContext }) => {
+    const { analyzedTickets, listId, pagination, analysisStats, webhookUrl, webhookSecret, writeBackResults, plan, layout } = inputData;
+
+    const result = await trackJobStep(runId, 'format-and-deliver', async () => {
+      if (analyzedTickets.length === 0) {
+        return {
+          success: true,
+          ticketCount: 0,
+          webhookDelivered: false,
+          analysisStats,
+          message: 'No tickets found in the list',
+        };
+      }
 
-    if (analyzedTickets.length === 0) {
-      return {
-        success: true,
-        ticketCount: 0,
-        webhookDelivered: false,
-        message: 'No tickets found in the list',
+      const metadata: SprintMetadata = {
+        syncTimestamp: new Date().toISOString(),
+        ticketCount: analyzedTickets.length,
+        listId,
+        listName: `Sprint ${new Date().toISOString().split('T')[0]}`,
+        pagesRead: pagination.pagesRead,
+        truncated: pagination.truncated,
       };
-    }
 
-    // Import and use the formatter tool's logic inline
-    const metadata: SprintMetadata = {
-      syncTimestamp: new Date().toISOString(),
-      ticketCount: analyzedTickets.length,
-      listId,
-      listName: `Sprint ${new Date().toISOString().split('T')[0]}`,
-    };
-
-    // Format markdown inline (same logic as sprint-formatter tool)
-    const lines: string[] = [];
-    const sprintDate = new Date(metadata.syncTimestamp).toISOString().split('T')[0];
-    lines.push(`# Sprint: ${sprintDate}`);
-    lines.push('');
-    lines.push(`Synced from ClickUp List "${metadata.listName || listId}" at ${new Date(metadata.syncTimestamp).toISOString()}`);
-    lines.push(`Total tickets: ${metadata.ticketCount}`);
-    lines.push('');
-
-    const fixes = analyzedTickets.filter(t => t.analysis.complexityTag === 'fix').length;
-    const features = analyzedTickets.filter(t => t.analysis.complexityTag === 'feature').length;
-    const avgQuality = analyzedTickets.length > 0
-      ? (analyzedTickets.reduce((sum, t) => sum + t.analysis.qualityScore, 0) / analyzedTickets.length).toFixed(1)
-      : '0';
-
-    lines.push('**Summary:**');
-    lines.push(`- Fixes: ${fixes}`);
-    lines.push(`- Features: ${features}`);
-    lines.push(`- Average Quality Score: ${avgQuality}/5`);
-    lines.push('');
-    lines.push('## Tickets (ordered by priority)');
-    lines.push('');
-
-    analyzedTickets.forEach((item, index) => {
-      const tag = item.analysis.complexityTag.toUpperCase();
-      lines.push(`### ${index + 1}. [${tag}] ${item.ticket.name}`);
-      lines.push(`- **ClickUp ID**: ${item.ticket.id}`);
-      lines.push(`- **Status**: ${item.ticket.status.status}`);
-      lines.push(`- **Quality**: ${item.analysis.qualityScore}/5`);
-      if (item.analysis.affectedFiles.length > 0) {
-        lines.push(`- **Affected files**: ${item.analysis.affectedFiles.join(', ')}`);
+      // Changes are against the sync passed in, else the last one delivered for this list
+      const previous = layout.previous ?? (await loadSprintSnapshot(listId)) ?? undefined;
+
+      // Same renderer as the sprint-formatter tool; a broken custom template falls back to the built-in one
+      let rendered: RenderedSprint;
+      try {
+        rendered = renderSprint({ tickets: analyzedTickets, metadata, plan, ...layout, previous });
+      } catch (error) {
+        console.warn('Sprint template failed, using the default layout:', error instanceof Error ? error.message : error);
+        // Without the previous sync too, in case it is what broke the render
+        rendered = renderSprint({ tickets: analyzedTickets, metadata, plan, ...layout, previous: undefined, template: DEFAULT_SPRINT_TEMPLATE });
       }
-      lines.push(`- **Suggested approach**: ${item.analysis.suggestedApproach}`);
-      lines.push('');
-      lines.push('---');
-      lines.push('');
-    });
+      const { markdown, tickets: orderedTickets, dependencies, artifacts, changes } = rendered;
+
+      // Deliver via webhook
+      console.log('Delivering results to webhook...');
+      const payload: WebhookPayload = {
+        sprintMarkdown: markdown,
+        tickets: orderedTickets,
+        dependencies,
+        ...(plan && { plan }),
+        ...(artifacts && { artifacts }),
+        ...(changes && { changes }),
+        metadata: {
+          syncTimestamp: new Date().toISOString(),
+          ticketCount: analyzedTickets.length,
+          listId,
+          pagesRead: pagination.pagesRead,
+          truncated: pagination.truncated,
+        },
+      };
 
-    const markdown = lines.join('\n');
+      let webhookDelivered = false;
+      let delivery: z.infer<typeof QueuedDeliverySchema> | undefined;
+      const tenant = resolveTenant({ requestContext });
+      const deliveryId = newDeliveryId();
+      await recordJobUpdate(runId, { deliveryId });
+      try {
+        // Checked again: DNS for the target may have changed since the fetch step
+        const keys = resolveWebhookSigningKeys({ requestContext }, webhookSecret);
+        await deliverWebhook(webhookUrl, payload, keys, { policy: webhookPolicyFor(tenant), legacy: legacySignatureFor(tenant), deliveryId });
+        webhookDelivered = true;
+        await recordSprintSnapshot({ tickets: orderedTickets, metadata });
+      } catch (error) {
+        if (error instanceof WebhookBlockedError) await recordBlockedWebhook(runId, error.target, error.reason);
+        console.error('Webhook delivery failed:', error);
+        await recordJobUpdate(runId, {
+          error: `Webhook delivery failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+
+        // The outbox keeps retrying for hours, so the analysis doesn't have to be re-run
+        const queued = await queueFailedDelivery({
+          id: deliveryId, jobId: runId, listId, tenantId: tenant?.id, webhookUrl, webhookSecret, payload, error,
+        });
+        if (queued) {
+          delivery = { id: queued.id, status: queued.status as 'pending' | 'dead', nextAttemptAt: queued.nextAttemptAt };
+        }
+      }
 
-    // Deliver via webhook
-    console.log('Delivering results to webhook...');
-    const payload = {
-      sprintMarkdown: markdown,
-      tickets: analyzedTickets,
-      metadata: {
-        syncTimestamp: new Date().toISOString(),
+      const cacheNote = ` (${analysisStats.cached} cached, ${analysisStats.fresh} fresh)`;
+      const writtenBack = writeBackResults.filter(r => !r.error).length;
+      const writeBackNote = writeBackResults.length > 0
+        ? ` (${writtenBack}/${writeBackResults.length} analyses written back to ClickUp)`
+        : '';
+
+      const deliveryNote = !delivery
+        ? ''
+        : delivery.status === 'pending'
+          ? `; queued as delivery ${delivery.id}, next attempt at ${delivery.nextAttemptAt} (see /api/deliveries)`
+          : `; delivery ${delivery.id} can't be retried automatically, redeliver it from /api/deliveries`;
+
+      return {
+        success: webhookDelivered,
         ticketCount: analyzedTickets.length,
-        listId,
-      },
-    };
-
-    let webhookDelivered = false;
-    try {
-      await deliverWebhook(webhookUrl, payload, webhookSecret);
-      webhookDelivered = true;
-    } catch (error) {
-      console.error('Webhook delivery failed:', error);
-    }
+        webhookDelivered,
+        delivery,
+        analysisStats,
+        message: (webhookDelivered
+          ? `Successfully analyzed ${analyzedTickets.length} tickets${cacheNote} and delivered to webhook`
+          : `Analyzed ${analyzedTickets.length} tickets${cacheNote} but webhook delivery failed${deliveryNote}`) + writeBackNote,
+      };
+    }, output => output.ticketCount);
+
+    await recordJobUpdate(runId, { webhookDelivered: result.webhookDelivered });
+    // success is false only when the webhook couldn't be delivered and went to the outbox
+    await recordJobCompletion(runId, result.ticketCount, result.success ? 'success' : 'undelivered');
 
-    return {
-      success: true,
-      ticketCount: analyzedTickets.length,
-      webhookDelivered,
-      message: webhookDelivered
-        ? `Successfully analyzed ${analyzedTickets.length} tickets and delivered to webhook`
-        : `Analyzed ${analyzedTickets.length} tickets but webhook delivery failed`,
-    };
+    return result;
   },
 });
 
@@ -354,10 +571,14 @@ export const sprintSyncWorkflow = createWorkflow({
     success: z.boolean(),
     ticketCount: z.number(),
     webhookDelivered: z.boolean(),
+    delivery: QueuedDeliverySchema.optional(),
+    analysisStats: AnalysisStatsSchema,
     message: z.string(),
   }),
 })
   .then(fetchTasksStep)
   .then(analyzeTicketsStep)
+  .then(planSprintStep)
+  .then(writeBackStep)
   .then(formatAndDeliverStep)
   .commit();
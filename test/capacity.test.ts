@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { planSprint } from '../src/planning/index.js';
+import type { AnalyzedTicket, PlanningOptions } from '../src/types/index.js';
+
+function ticket(id: string, points: number | undefined, assignee?: string, priority = 'normal'): AnalyzedTicket {
+  return {
+    ticket: {
+      id,
+      name: `Ticket ${id}`,
+      status: { status: 'open' },
+      priority: { id: '1', priority, color: '' },
+      ...(assignee && { assignees: [{ id: 1, username: assignee }] }),
+    },
+    analysis: {
+      qualityScore: 4,
+      qualityGaps: [],
+      affectedFiles: [],
+      complexityTag: 'fix',
+      suggestedApproach: '',
+      ...(points !== undefined && { estimate: { points, confidence: 0.8 } }),
+    },
+  };
+}
+
+function options(capacity: Record<string, number>, stretchRatio = 0.2): PlanningOptions {
+  return { capacity, stretchRatio, hoursPerPoint: 4 };
+}
+
+function buckets(plan: ReturnType<typeof planSprint>): Record<string, string> {
+  return Object.fromEntries(plan.tickets.map(t => [t.taskId, t.bucket]));
+}
+
+describe('planSprint', () => {
+  it('commits tickets up to capacity, then stretch, then backlog', () => {
+    const plan = planSprint([
+      ticket('a', 5, 'ana', 'urgent'),
+      ticket('b', 3, 'ana', 'high'),
+      ticket('c', 2, 'ana', 'normal'),
+      ticket('d', 3, 'ana', 'low'),
+    ], options({ ana: 10 }, 0.3));
+
+    assert.deepEqual(buckets(plan), { a: 'committed', b: 'committed', c: 'committed', d: 'stretch' });
+    assert.deepEqual(plan.assignees, [
+      { assignee: 'ana', capacity: 10, assigned: 13, committed: 10, stretch: 3, backlog: 0, overAllocated: true },
+    ]);
+  });
+
+  it('backlogs a ticket that does not fit and still fits smaller ones after it', () => {
+    const plan = planSprint([
+      ticket('small', 3, 'ana', 'urgent'),
+      ticket('big', 13, 'ana', 'high'),
+      ticket('tiny', 2, 'ana', 'low'),
+    ], options({ ana: 5 }));
+
+    assert.deepEqual(buckets(plan), { small: 'committed', big: 'backlog', tiny: 'committed' });
+    assert.equal(plan.assignees[0].backlog, 13);
+    assert.equal(plan.assignees[0].committed, 5);
+  });
+
+  it('counts unestimated tickets as one point', () => {
+    const plan = planSprint([ticket('a', undefined, 'ana'), ticket('b', undefined, 'ana')], options({ ana: 1 }, 0));
+
+    assert.deepEqual(plan.tickets.map(t => t.points), [1, 1]);
+    assert.deepEqual(buckets(plan), { a: 'committed', b: 'backlog' });
+  });
+
+  it('backlogs everything for assignees without configured capacity', () => {
+    const plan = planSprint([ticket('a', 1, 'bo'), ticket('b', 1)], options({ ana: 5 }));
+
+    assert.deepEqual(buckets(plan), { a: 'backlog', b: 'backlog' });
+    assert.deepEqual(plan.assignees.map(a => [a.assignee, a.capacity, a.overAllocated]), [
+      ['ana', 5, false],
+      ['bo', 0, true],
+      ['unassigned', 0, true],
+    ]);
+  });
+
+  it('fills capacity in dependency order, blockers first', () => {
+    const blocker = ticket('blocker', 3, 'ana', 'low');
+    const waiting = ticket('waiting', 3, 'ana', 'urgent');
+    waiting.ticket.description = 'Blocked by #blocker';
+
+    const plan = planSprint([waiting, blocker], options({ ana: 3 }, 0));
+
+    assert.deepEqual(plan.tickets.map(t => t.taskId), ['blocker', 'waiting']);
+    assert.deepEqual(buckets(plan), { blocker: 'committed', waiting: 'backlog' });
+  });
+});
@@ -0,0 +1,200 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import {
+  ClickUpAuthError,
+  ClickUpClient,
+  ClickUpError,
+  ClickUpNotFoundError,
+  ClickUpRateLimitError,
+  ClickUpTimeoutError,
+} from '../src/clickup/index.js';
+
+// A local ClickUp stand-in: each test swaps in its own handler and reads the requests it got
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse) => void;
+
+let handler: Handler = (_req, res) => res.end('{}');
+let requests: URL[] = [];
+let server: http.Server;
+let baseUrl: string;
+
+function serve(next: Handler): void {
+  requests = [];
+  handler = next;
+}
+
+function json(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function tasks(count: number, offset = 0) {
+  return Array.from({ length: count }, (_, i) => ({ id: `t${offset + i}`, name: `Task ${offset + i}`, status: { status: 'open' } }));
+}
+
+function client(options: { maxRetries?: number; maxBackoffMs?: number; timeoutMs?: number } = {}): ClickUpClient {
+  return new ClickUpClient({ apiToken: 'pk_test', baseUrl, ...options });
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    requests.push(new URL(req.url || '/', 'http://localhost'));
+    handler(req, res);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+describe('ClickUpClient.getTasks pagination', () => {
+  it('reads pages until last_page', async () => {
+    serve((req, res) => {
+      const page = Number(new URL(req.url || '/', 'http://localhost').searchParams.get('page'));
+      json(res, 200, page === 0 ? { tasks: tasks(100), last_page: false } : { tasks: tasks(1, 100), last_page: true });
+    });
+
+    const result = await client().getTasks('L1', { statuses: ['open', 'in progress'] });
+
+    assert.equal(result.tasks.length, 101);
+    assert.deepEqual(result.pagination, { pagesRead: 2, truncated: false });
+    assert.deepEqual(requests.map(url => url.searchParams.get('page')), ['0', '1']);
+    assert.deepEqual(requests[0].searchParams.getAll('statuses[]'), ['open', 'in progress']);
+    assert.equal(requests[0].pathname, '/list/L1/task');
+  });
+
+  it('treats a short page as the last one when last_page is missing', async () => {
+    serve((_req, res) => json(res, 200, { tasks: tasks(3) }));
+
+    const result = await client().getTasks('L1');
+
+    assert.equal(result.tasks.length, 3);
+    assert.deepEqual(result.pagination, { pagesRead: 1, truncated: false });
+  });
+
+  it('stops at maxPages and reports the result as truncated', async () => {
+    serve((_req, res) => json(res, 200, { tasks: tasks(100), last_page: false }));
+
+    const result = await client().getTasks('L1', { maxPages: 2 });
+
+    assert.equal(requests.length, 2);
+    assert.equal(result.tasks.length, 200);
+    assert.deepEqual(result.pagination, { pagesRead: 2, truncated: true });
+  });
+});
+
+describe('ClickUpClient rate limits', () => {
+  it('waits for Retry-After on 429 and retries', async () => {
+    serve((_req, res) => {
+      if (requests.length === 1) {
+        json(res, 429, { err: 'Rate limit' }, { 'Retry-After': '0' });
+      } else {
+        json(res, 200, { tasks: tasks(1), last_page: true });
+      }
+    });
+
+    const result = await client().getTasks('L1');
+
+    assert.equal(requests.length, 2);
+    assert.equal(result.tasks.length, 1);
+  });
+
+  it('fails fast with ClickUpRateLimitError when Retry-After exceeds maxBackoffMs', async () => {
+    serve((_req, res) => json(res, 429, { err: 'Rate limit' }, { 'Retry-After': '120' }));
+
+    await assert.rejects(client({ maxBackoffMs: 1000 }).getTasks('L1'), (error: unknown) => {
+      assert.ok(error instanceof ClickUpRateLimitError);
+      assert.equal(error.status, 429);
+      assert.equal(error.retryAfterMs, 120000);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it('gives up with ClickUpRateLimitError after maxRetries', async () => {
+    serve((_req, res) => json(res, 429, { err: 'Rate limit' }, { 'Retry-After': '0' }));
+
+    await assert.rejects(client({ maxRetries: 2 }).getTasks('L1'), ClickUpRateLimitError);
+    assert.equal(requests.length, 3);
+  });
+});
+
+describe('ClickUpClient errors', () => {
+  it('throws ClickUpAuthError for 401 without retrying', async () => {
+    serve((_req, res) => json(res, 401, { err: 'Token invalid' }));
+
+    await assert.rejects(client().getTasks('L1'), (error: unknown) => {
+      assert.ok(error instanceof ClickUpAuthError);
+      assert.equal(error.status, 401);
+      return true;
+    });
+    assert.equal(requests.length, 1);
+  });
+
+  it('throws ClickUpNotFoundError for 404', async () => {
+    serve((_req, res) => json(res, 404, { err: 'List not found' }));
+
+    await assert.rejects(client().getTaskListId('missing'), ClickUpNotFoundError);
+  });
+
+  it('throws ClickUpError with the status once 5xx retries run out', async () => {
+    serve((_req, res) => json(res, 503, { err: 'Unavailable' }, { 'Retry-After': '0' }));
+
+    await assert.rejects(client({ maxRetries: 1 }).getTasks('L1'), (error: unknown) => {
+      assert.ok(error instanceof ClickUpError);
+      assert.equal(error.status, 503);
+      return true;
+    });
+    assert.equal(requests.length, 2);
+  });
+
+  it('throws ClickUpTimeoutError when the server does not answer in time', async () => {
+    serve((_req, res) => {
+      setTimeout(() => json(res, 200, { tasks: [], last_page: true }), 500);
+    });
+
+    await assert.rejects(client({ timeoutMs: 50 }).getTasks('L1'), ClickUpTimeoutError);
+  });
+});
+
+describe('ClickUpClient.findTaskComment', () => {
+  // 60 comments, newest first, dated by index; the match is on the third page
+  const comments = Array.from({ length: 60 }, (_, i) => ({
+    id: `c${i}`,
+    comment_text: i === 55 ? '[sprint-pilot:analysis] old' : `comment ${i}`,
+    date: String(1_700_000_000_000 - i * 1000),
+  }));
+
+  function servePages(): void {
+    serve((req, res) => {
+      const startId = new URL(req.url || '/', 'http://localhost').searchParams.get('start_id');
+      const from = startId ? comments.findIndex(c => c.id === startId) + 1 : 0;
+      json(res, 200, { comments: comments.slice(from, from + 25) });
+    });
+  }
+
+  it('pages back with start and start_id until a comment matches', async () => {
+    servePages();
+
+    const found = await client().findTaskComment('T1', c => c.comment_text.includes('[sprint-pilot:analysis]'));
+
+    assert.equal(found?.id, 'c55');
+    assert.equal(requests.length, 3);
+    assert.equal(requests[1].searchParams.get('start_id'), 'c24');
+    assert.equal(requests[1].searchParams.get('start'), comments[24].date);
+  });
+
+  it('returns null once a short page shows there are no older comments', async () => {
+    servePages();
+
+    const found = await client().findTaskComment('T1', c => c.comment_text === 'missing');
+
+    assert.equal(found, null);
+    assert.equal(requests.length, 3);
+  });
+});
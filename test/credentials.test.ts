@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { randomBytes } from 'node:crypto';
+import { afterEach, describe, it } from 'node:test';
+import {
+  decryptSecret,
+  encryptSecret,
+  ForbiddenError,
+  hashApiKey,
+  resolveClickUpCredentials,
+  resolveListId,
+  setAuthConfig,
+  UnauthorizedError,
+  type McpAuthInfo,
+} from '../src/auth/index.js';
+import type { AuthConfig } from '../src/types/index.js';
+import { redactSecrets, registerSecret } from '../src/utils/secrets.js';
+
+const key = randomBytes(32);
+
+const config: AuthConfig = {
+  keys: [{ id: 'acme-1', hash: hashApiKey('sp_acme'), tenantId: 'acme' }],
+  tenants: [
+    { id: 'acme', clickupToken: encryptSecret('pk_acme_tenant_token', key), defaultListId: 'L1', listIds: ['L1', 'L2'] },
+    { id: 'bare' },
+  ],
+};
+
+// A tool's execution context as the MCP server hands it over
+function toolContext(extra: McpAuthInfo['extra']) {
+  return { mcp: { extra: { authInfo: { token: 'sp_acme', clientId: extra.tenantId || 'anonymous', scopes: [], extra } } } };
+}
+
+afterEach(() => {
+  setAuthConfig(undefined);
+  delete process.env.CLICKUP_API_TOKEN;
+  delete process.env.CLICKUP_LIST_ID;
+  delete process.env.CONFIG_ENCRYPTION_KEY;
+});
+
+describe('resolveClickUpCredentials', () => {
+  it('uses the tenant token and list, decrypted, and registers the token for redaction', () => {
+    setAuthConfig(config);
+    process.env.CONFIG_ENCRYPTION_KEY = key.toString('base64');
+
+    const credentials = resolveClickUpCredentials(toolContext({ tenantId: 'acme' }));
+
+    assert.deepEqual(credentials, { token: 'pk_acme_tenant_token', defaultListId: 'L1', tenantId: 'acme', allowedListIds: ['L1', 'L2'] });
+    assert.equal(redactSecrets('ClickUp said pk_acme_tenant_token is bad'), 'ClickUp said [redacted] is bad');
+  });
+
+  it('prefers the per-request headers', () => {
+    setAuthConfig(config);
+
+    const credentials = resolveClickUpCredentials(toolContext({ tenantId: 'acme', clickupToken: 'pk_header', clickupListId: 'L2' }));
+
+    assert.equal(credentials.token, 'pk_header');
+    assert.equal(credentials.defaultListId, 'L2');
+  });
+
+  it('never falls back to the server token or list for a tenant', () => {
+    setAuthConfig(config);
+    process.env.CLICKUP_API_TOKEN = 'pk_server';
+    process.env.CLICKUP_LIST_ID = 'L9';
+
+    assert.throws(() => resolveClickUpCredentials(toolContext({ tenantId: 'bare' })), /configure the tenant's clickupToken/);
+  });
+
+  it('rejects calls without a tenant once API keys are configured', () => {
+    setAuthConfig(config);
+    process.env.CLICKUP_API_TOKEN = 'pk_server';
+
+    assert.throws(() => resolveClickUpCredentials({}), UnauthorizedError);
+  });
+
+  it('uses the server token and list when auth is off', () => {
+    setAuthConfig(null);
+    process.env.CLICKUP_API_TOKEN = 'pk_server';
+    process.env.CLICKUP_LIST_ID = 'L9';
+
+    assert.deepEqual(resolveClickUpCredentials(), { token: 'pk_server', defaultListId: 'L9', tenantId: undefined, allowedListIds: undefined });
+  });
+});
+
+describe('resolveListId', () => {
+  it('falls back to the default list and checks the allow-list', () => {
+    const credentials = { token: 'pk', defaultListId: 'L1', allowedListIds: ['L1'] };
+
+    assert.equal(resolveListId(credentials), 'L1');
+    assert.throws(() => resolveListId(credentials, 'L2'), ForbiddenError);
+    assert.throws(() => resolveListId({ token: 'pk' }), /No ClickUp list/);
+  });
+});
+
+describe('config encryption', () => {
+  it('round-trips values and fails without quoting them', () => {
+    const encrypted = encryptSecret('pk_secret_value', key);
+
+    assert.match(encrypted, /^enc:v1:/);
+    assert.equal(decryptSecret(encrypted, key), 'pk_secret_value');
+    assert.throws(() => decryptSecret(encrypted, randomBytes(32)), (error: unknown) => {
+      assert.ok(error instanceof Error);
+      assert.doesNotMatch(error.message, /pk_secret_value/);
+      return true;
+    });
+  });
+});
+
+describe('redactSecrets', () => {
+  it('ignores short values', () => {
+    registerSecret('abc');
+
+    assert.equal(redactSecrets('abc'), 'abc');
+  });
+
+  it('forgets the least recently used secrets past the cap', () => {
+    registerSecret('pk_kept_in_use_0000');
+    registerSecret('pk_evicted_000000');
+    for (let i = 0; i < 199; i++) {
+      registerSecret(`pk_filler_${String(i).padStart(6, '0')}`);
+      // Re-registering on every use keeps a secret recent
+      if (i === 100) registerSecret('pk_kept_in_use_0000');
+    }
+
+    assert.equal(redactSecrets('pk_kept_in_use_0000'), '[redacted]');
+    assert.equal(redactSecrets('pk_evicted_000000'), 'pk_evicted_000000');
+  });
+});
@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import {
+  MemoryDeliveryStore,
+  processDueDeliveries,
+  queueFailedDelivery,
+  retryDelayMs,
+  setDeliveryStore,
+} from '../src/deliveries/index.js';
+import { MemoryJobStore, recordJobCompletion, recordJobStart, setJobStore } from '../src/jobs/index.js';
+import type { WebhookPayload } from '../src/types/index.js';
+import { registerSecret } from '../src/utils/secrets.js';
+import { WebhookBlockedError } from '../src/webhooks/index.js';
+
+// A local receiver answering with `status`; private targets are allowed so it can be reached
+
+const MINUTE_MS = 60 * 1000;
+
+let status = 200;
+let received: http.IncomingHttpHeaders[] = [];
+let server: http.Server;
+let webhookUrl: string;
+let deliveries: MemoryDeliveryStore;
+let jobs: MemoryJobStore;
+
+const payload: WebhookPayload = {
+  sprintMarkdown: '# Sprint',
+  tickets: [],
+  metadata: { syncTimestamp: '2026-01-05T10:00:00.000Z', ticketCount: 0, listId: 'L1' },
+};
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    received.push(req.headers);
+    req.resume();
+    req.on('end', () => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end('{}');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook?token=abc`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(async () => {
+  status = 200;
+  received = [];
+  deliveries = new MemoryDeliveryStore();
+  jobs = new MemoryJobStore();
+  setDeliveryStore(deliveries);
+  setJobStore(jobs);
+  process.env.WEBHOOK_ALLOW_PRIVATE = 'true';
+
+  await recordJobStart('job1', 'L1');
+  await recordJobCompletion('job1', 0, 'undelivered');
+});
+
+afterEach(() => {
+  setDeliveryStore(null);
+  setJobStore(null);
+  delete process.env.WEBHOOK_ALLOW_PRIVATE;
+  delete process.env.DELIVERY_MAX_ATTEMPTS;
+});
+
+function queue(error: unknown = new Error('Webhook delivery failed: 503 Service Unavailable'), url = webhookUrl) {
+  return queueFailedDelivery({ id: 'd1', jobId: 'job1', listId: 'L1', webhookUrl: url, payload, error });
+}
+
+// Moves the pending delivery's next attempt into the past
+async function makeDue(): Promise<void> {
+  await deliveries.update('d1', record => ({ ...record, nextAttemptAt: new Date(Date.now() - 1000).toISOString() }));
+}
+
+function assertAbout(actual: string | undefined, expectedMs: number): void {
+  assert.ok(actual, 'expected a next attempt');
+  assert.ok(Math.abs(new Date(actual).getTime() - expectedMs) < 5000, `${actual} is not about ${new Date(expectedMs).toISOString()}`);
+}
+
+describe('retryDelayMs', () => {
+  it('starts at a minute and doubles up to two hours', () => {
+    assert.deepEqual([0, 1, 2, 3, 7, 8, 20].map(retryDelayMs), [
+      MINUTE_MS, MINUTE_MS, 2 * MINUTE_MS, 4 * MINUTE_MS, 64 * MINUTE_MS, 120 * MINUTE_MS, 120 * MINUTE_MS,
+    ]);
+  });
+});
+
+describe('queueFailedDelivery', () => {
+  it('queues the delivery for a retry in a minute and marks the job', async () => {
+    registerSecret('pk_leaked_token_123');
+    const record = await queue(new Error('ClickUp rejected pk_leaked_token_123'));
+
+    assert.equal(record?.status, 'pending');
+    assert.equal(record?.attempts, 1);
+    assert.equal(record?.target, webhookUrl.replace('?token=abc', ''));
+    assert.equal(record?.lastError, 'ClickUp rejected [redacted]');
+    assertAbout(record?.nextAttemptAt, Date.now() + MINUTE_MS);
+    assert.equal((await jobs.get('job1'))?.deliveryStatus, 'pending');
+  });
+
+  it('dead-letters blocked targets right away', async () => {
+    const record = await queue(new WebhookBlockedError('http://169.254.169.254/', '169.254.169.254 is a cloud metadata address'));
+
+    assert.equal(record?.status, 'dead');
+    assert.equal(record?.nextAttemptAt, undefined);
+    assert.equal((await jobs.get('job1'))?.deliveryStatus, 'dead');
+  });
+});
+
+describe('processDueDeliveries', () => {
+  it('skips deliveries that are not due yet', async () => {
+    await queue();
+
+    assert.deepEqual(await processDueDeliveries(), []);
+    assert.equal(received.length, 0);
+  });
+
+  it('delivers with the same delivery id and marks the job a success', async () => {
+    await queue();
+    await makeDue();
+
+    const [record] = await processDueDeliveries();
+
+    assert.equal(record.status, 'delivered');
+    assert.equal(record.attempts, 2);
+    assert.equal(record.nextAttemptAt, undefined);
+    assert.equal(received[0]['x-sprint-pilot-delivery'], 'd1');
+    const job = await jobs.get('job1');
+    assert.deepEqual([job?.status, job?.deliveryStatus, job?.webhookDelivered], ['success', 'delivered', true]);
+    assert.ok(await jobs.getSnapshot('L1'));
+  });
+
+  it('backs off after another failure and dead-letters at the attempt limit', async () => {
+    process.env.DELIVERY_MAX_ATTEMPTS = '3';
+    status = 503;
+    await queue();
+    await makeDue();
+
+    const [retried] = await processDueDeliveries();
+    assert.equal(retried.status, 'pending');
+    assert.equal(retried.attempts, 2);
+    assert.match(retried.lastError || '', /503/);
+    assertAbout(retried.nextAttemptAt, Date.now() + 2 * MINUTE_MS);
+
+    await makeDue();
+    const [dead] = await processDueDeliveries();
+    assert.equal(dead.status, 'dead');
+    assert.equal(dead.attempts, 3);
+    assert.equal(dead.history.length, 3);
+    assert.equal((await jobs.get('job1'))?.status, 'undelivered');
+  });
+
+  it('dead-letters a delivery whose target is now blocked and records it on the job', async () => {
+    delete process.env.WEBHOOK_ALLOW_PRIVATE;
+    await queue();
+    await makeDue();
+
+    const [record] = await processDueDeliveries();
+
+    assert.equal(record.status, 'dead');
+    assert.equal(received.length, 0);
+    const job = await jobs.get('job1');
+    assert.equal(job?.deliveryStatus, 'dead');
+    assert.match(job?.blockedWebhooks?.[0].reason || '', /private, loopback or link-local/);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { detectDependencies, orderSprint } from '../src/planning/index.js';
+import type { AnalyzedTicket, ClickUpTask } from '../src/types/index.js';
+
+function ticket(id: string, fields: Partial<ClickUpTask> = {}, affectedFiles: string[] = []): AnalyzedTicket {
+  return {
+    ticket: { id, name: `Ticket ${id}`, status: { status: 'open' }, ...fields },
+    analysis: { qualityScore: 3, qualityGaps: [], affectedFiles, complexityTag: 'fix', suggestedApproach: '' },
+  };
+}
+
+describe('detectDependencies', () => {
+  it('reads blocking mentions in both directions', () => {
+    const result = detectDependencies([
+      ticket('a1', { description: 'Blocked by #b2 landing first.' }),
+      ticket('b2'),
+      ticket('c3', { name: 'Migrate schema, blocks CU-b2' }),
+    ]);
+
+    assert.deepEqual(result.dependencies, [
+      { taskId: 'a1', dependsOn: 'b2', source: 'mention' },
+      { taskId: 'b2', dependsOn: 'c3', source: 'mention' },
+    ]);
+    assert.deepEqual(result.cycles, []);
+  });
+
+  it('matches custom ids without a prefix but raw ids only with one', () => {
+    const result = detectDependencies([
+      ticket('a1', { description: 'Depends on DEV-7. See also b2 and #c3.' }),
+      ticket('b2', { custom_id: 'DEV-7' }),
+      ticket('c3'),
+    ]);
+
+    assert.deepEqual(result.dependencies, [{ taskId: 'a1', dependsOn: 'b2', source: 'mention' }]);
+    assert.deepEqual(result.related, [['a1', 'c3']]);
+  });
+
+  it('ignores ClickUp dependencies and links to tickets outside the sprint', () => {
+    const result = detectDependencies([
+      ticket('a1', {
+        dependencies: [{ task_id: 'a1', depends_on: 'b2' }, { task_id: 'a1', depends_on: 'elsewhere' }],
+        linked_tasks: [{ task_id: 'a1', link_id: 'b2' }, { task_id: 'a1', link_id: 'elsewhere' }],
+      }),
+      ticket('b2'),
+    ]);
+
+    assert.deepEqual(result.dependencies, [{ taskId: 'a1', dependsOn: 'b2', source: 'clickup' }]);
+    // The link is already covered by the dependency
+    assert.deepEqual(result.related, []);
+  });
+
+  it('reports tickets touching the same files as conflicts', () => {
+    const result = detectDependencies([
+      ticket('a1', {}, ['src/a.ts', 'src/shared.ts']),
+      ticket('b2', {}, ['src/shared.ts']),
+      ticket('c3', {}, ['src/c.ts']),
+    ]);
+
+    assert.deepEqual(result.conflicts, [{ taskIds: ['a1', 'b2'], files: ['src/shared.ts'] }]);
+  });
+
+  it('finds cycles', () => {
+    const result = detectDependencies([
+      ticket('a1', { description: 'Blocked by #b2' }),
+      ticket('b2', { description: 'Blocked by #c3' }),
+      ticket('c3', { description: 'Blocked by #a1' }),
+      ticket('d4', { description: 'Blocked by #a1' }),
+    ]);
+
+    assert.equal(result.cycles.length, 1);
+    assert.deepEqual([...result.cycles[0]].sort(), ['a1', 'b2', 'c3']);
+  });
+});
+
+describe('orderSprint', () => {
+  const urgent = { priority: { id: '1', priority: 'urgent', color: '' } };
+
+  it('puts blockers before the tickets waiting on them', () => {
+    const { tickets } = orderSprint([
+      ticket('a1', { ...urgent, description: 'Blocked by #b2' }),
+      ticket('b2', { description: 'Depends on #c3' }),
+      ticket('c3'),
+    ]);
+
+    assert.deepEqual(tickets.map(t => t.ticket.id), ['c3', 'b2', 'a1']);
+  });
+
+  it('breaks a cycle and still orders every ticket once', () => {
+    const { tickets, dependencies } = orderSprint([
+      ticket('a1', { ...urgent, description: 'Blocked by #b2' }),
+      ticket('b2', { description: 'Blocked by #a1' }),
+      ticket('c3', { description: 'Blocked by #b2' }),
+    ]);
+
+    assert.equal(dependencies.cycles.length, 1);
+    // The cycle is broken at its first ticket in priority order
+    assert.deepEqual(tickets.map(t => t.ticket.id), ['a1', 'b2', 'c3']);
+  });
+});
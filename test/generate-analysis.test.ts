@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { LanguageModel } from 'ai';
+import { createMockModel, generateTicketAnalysis, registerLlmProvider } from '../src/llm/index.js';
+import type { CodebaseMap, LlmConfig } from '../src/types/index.js';
+
+// The mock model with scripted affectedFiles: each call takes the next entry, and an
+// Error entry makes that call fail
+
+let answers: (string[] | Error)[] = [];
+let prompts: string[] = [];
+
+registerLlmProvider('scripted', modelId => {
+  const mock = createMockModel(modelId);
+  return {
+    ...mock,
+    async doGenerate(options) {
+      prompts.push(options.prompt.map(message => JSON.stringify(message.content)).join('\n'));
+      const answer = answers.shift() ?? [];
+      if (answer instanceof Error) throw answer;
+
+      const result = await mock.doGenerate(options);
+      return { ...result, text: JSON.stringify({ ...JSON.parse(result.text ?? '{}'), affectedFiles: answer }) };
+    },
+  } satisfies LanguageModel;
+});
+
+const llm: LlmConfig = { model: 'scripted:analyst' };
+
+const codebaseMap: CodebaseMap = {
+  routes: [],
+  components: [],
+  actions: [],
+  graph: {
+    files: ['src/auth/login.ts', 'src/auth/session.ts', 'src/app/page.tsx'],
+    imports: [[1], [], [0]],
+  },
+};
+
+const request = {
+  system: 'You analyze tickets.',
+  prompt: 'Title: Login crash\nDescription: The login form crashes on submit.',
+  llm,
+};
+
+beforeEach(() => {
+  answers = [];
+  prompts = [];
+});
+
+describe('generateTicketAnalysis with the mock model', () => {
+  it('returns the analysis unchanged without a codebase map', async () => {
+    answers = [['made/up.ts']];
+
+    const analysis = await generateTicketAnalysis(request);
+
+    assert.deepEqual(analysis.affectedFiles, ['made/up.ts']);
+    assert.equal(analysis.complexityTag, 'fix');
+    assert.equal(analysis.source, 'llm');
+    assert.equal(prompts.length, 1);
+  });
+
+  it('corrects near misses without re-prompting when most files are valid', async () => {
+    answers = [['src/auth/login.ts', 'src/auth/sesion.ts']];
+
+    const analysis = await generateTicketAnalysis({ ...request, codebaseMap });
+
+    assert.equal(prompts.length, 1);
+    assert.deepEqual(analysis.affectedFiles, ['src/auth/login.ts', 'src/auth/session.ts']);
+    assert.equal(analysis.fileMatches?.[1].correctedFrom, 'src/auth/sesion.ts');
+    assert.deepEqual(analysis.hallucinatedFiles, []);
+  });
+
+  it('re-prompts once with the invalid paths when more than half are invalid', async () => {
+    answers = [['lib/auth.ts', 'pages/login.tsx', 'src/auth/login.ts'], ['src/auth/login.ts']];
+
+    const analysis = await generateTicketAnalysis({ ...request, codebaseMap });
+
+    assert.equal(prompts.length, 2);
+    assert.match(prompts[1], /do not exist in the codebase: lib\/auth\.ts, pages\/login\.tsx/);
+    assert.deepEqual(analysis.affectedFiles, ['src/auth/login.ts']);
+    assert.deepEqual(analysis.hallucinatedFiles, []);
+    // Blast radius from the import graph: page.tsx imports login.ts
+    assert.deepEqual(analysis.dependentFiles, ['src/app/page.tsx']);
+  });
+
+  it('keeps the first analysis when the re-prompt fails', async () => {
+    answers = [['lib/auth.ts', 'pages/login.tsx', 'src/auth/login.ts'], new Error('model unavailable')];
+
+    const analysis = await generateTicketAnalysis({ ...request, codebaseMap });
+
+    assert.equal(prompts.length, 2);
+    assert.deepEqual(analysis.affectedFiles, ['src/auth/login.ts']);
+    assert.deepEqual(analysis.hallucinatedFiles, ['lib/auth.ts', 'pages/login.tsx']);
+  });
+});
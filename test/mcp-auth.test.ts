@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, afterEach, before, describe, it } from 'node:test';
+import {
+  guardMcpRequest,
+  hashApiKey,
+  JSON_RPC_FORBIDDEN,
+  JSON_RPC_UNAUTHORIZED,
+  matchesApiKeyHash,
+  setAuthConfig,
+  type McpRequest,
+} from '../src/auth/index.js';
+import type { AuthConfig } from '../src/types/index.js';
+
+// A local MCP endpoint that only runs the auth guard and echoes req.auth back
+
+const config: AuthConfig = {
+  keys: [
+    { id: 'acme-1', hash: hashApiKey('sp_acme'), tenantId: 'acme' },
+    { id: 'acme-old', hash: hashApiKey('sp_revoked'), tenantId: 'acme', revoked: true },
+    { id: 'ghost-1', hash: hashApiKey('sp_ghost'), tenantId: 'missing' },
+  ],
+  tenants: [
+    { id: 'acme', listIds: ['L1', 'L2'], defaultListId: 'L1', webhookUrls: ['https://hooks.acme.test/sprint/'] },
+  ],
+};
+
+let server: http.Server;
+let baseUrl: string;
+
+before(async () => {
+  server = http.createServer((req: McpRequest, res) => {
+    let text = '';
+    req.on('data', chunk => { text += chunk; });
+    req.on('end', () => {
+      req.body = text ? JSON.parse(text) : undefined;
+      if (guardMcpRequest(req, res)) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ auth: req.auth }));
+      }
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+afterEach(() => {
+  setAuthConfig(undefined);
+  delete process.env.MCP_AUTH_DISABLED;
+});
+
+function toolCall(name: string, args: Record<string, unknown> = {}) {
+  return { jsonrpc: '2.0', id: 7, method: 'tools/call', params: { name, arguments: args } };
+}
+
+async function post(body: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(baseUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, headers: response.headers, body: await response.json() };
+}
+
+const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+describe('API key hashes', () => {
+  it('compares keys against hex hashes in either case', () => {
+    assert.ok(matchesApiKeyHash('sp_acme', hashApiKey('sp_acme')));
+    assert.ok(matchesApiKeyHash('sp_acme', hashApiKey('sp_acme').toUpperCase()));
+    assert.ok(!matchesApiKeyHash('sp_other', hashApiKey('sp_acme')));
+    assert.ok(!matchesApiKeyHash('sp_acme', 'abc'));
+  });
+});
+
+describe('guardMcpRequest', () => {
+  it('rejects missing, unknown, revoked and orphaned keys with 401 and the JSON-RPC id', async () => {
+    setAuthConfig(config);
+
+    for (const headers of [{}, bearer('sp_nope'), bearer('sp_revoked'), bearer('sp_ghost'), { Authorization: 'Basic sp_acme' }]) {
+      const { status, headers: responseHeaders, body } = await post(toolCall('clickup_sync'), headers);
+      assert.equal(status, 401);
+      assert.match(responseHeaders.get('www-authenticate') || '', /^Bearer /);
+      assert.equal(body.error.code, JSON_RPC_UNAUTHORIZED);
+      assert.equal(body.id, 7);
+    }
+  });
+
+  it('puts the tenant and per-request ClickUp headers on req.auth', async () => {
+    setAuthConfig(config);
+
+    const { status, body } = await post(toolCall('clickup_sync', { listId: 'L2' }), { ...bearer('sp_acme'), 'X-ClickUp-List-Id': 'L1' });
+
+    assert.equal(status, 200);
+    assert.deepEqual(body.auth, {
+      token: 'sp_acme',
+      clientId: 'acme',
+      scopes: [],
+      extra: { tenantId: 'acme', keyId: 'acme-1', clickupListId: 'L1' },
+    });
+  });
+
+  it('answers 403 for lists and webhook URLs outside the tenant allow-lists', async () => {
+    setAuthConfig(config);
+
+    const rejected = [
+      toolCall('clickup_sync', { listId: 'L9' }),
+      toolCall('run_sprintSync', { listId: 'L1', webhookUrl: 'https://hooks.acme.test/sprint-evil' }),
+      [toolCall('clickup_sync', { listId: 'L1' }), toolCall('clickup_sync', { listId: 'L9' })],
+    ];
+    for (const body of rejected) {
+      const response = await post(body, bearer('sp_acme'));
+      assert.equal(response.status, 403);
+      assert.equal(response.body.error.code, JSON_RPC_FORBIDDEN);
+    }
+
+    const allowed = await post(toolCall('run_sprintSync', { webhookUrl: 'https://hooks.acme.test/sprint/team' }), bearer('sp_acme'));
+    assert.equal(allowed.status, 200);
+  });
+
+  it('answers 500 without config unless auth is explicitly disabled', async () => {
+    setAuthConfig(null);
+
+    const misconfigured = await post(toolCall('clickup_sync'));
+    assert.equal(misconfigured.status, 500);
+    assert.equal(misconfigured.body.error.message, 'Server authentication is misconfigured');
+
+    process.env.MCP_AUTH_DISABLED = 'true';
+    const anonymous = await post(toolCall('clickup_sync'));
+    assert.equal(anonymous.status, 200);
+    assert.equal(anonymous.body.auth.clientId, 'anonymous');
+  });
+});
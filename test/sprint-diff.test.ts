@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { countChanges, diffSprints, formatSprintChanges } from '../src/planning/index.js';
+import { renderSprint } from '../src/render/index.js';
+import type { AnalyzedTicket, SprintData, SprintMetadata } from '../src/types/index.js';
+
+function ticket(id: string, status = 'open', priority: string | null = 'normal', qualityScore = 3): AnalyzedTicket {
+  return {
+    ticket: {
+      id,
+      name: `Ticket ${id}`,
+      status: { status },
+      priority: priority === null ? null : { id: priority, priority, color: '' },
+    },
+    analysis: { qualityScore, qualityGaps: [], affectedFiles: [], complexityTag: 'fix', suggestedApproach: '' },
+  };
+}
+
+function sprint(tickets: AnalyzedTicket[], metadata: Partial<SprintMetadata> = {}): SprintData {
+  return {
+    tickets,
+    metadata: { syncTimestamp: '2026-01-05T10:00:00.000Z', ticketCount: tickets.length, listId: 'L1', ...metadata },
+  };
+}
+
+describe('diffSprints', () => {
+  const previous = sprint([ticket('a'), ticket('b', 'open', 'low', 2), ticket('gone', 'in review')], {
+    syncTimestamp: '2026-01-01T10:00:00.000Z',
+  });
+  const current = sprint([ticket('a', 'OPEN'), ticket('b', 'in progress', null, 4), ticket('new')]);
+
+  it('reports added, closed, status, priority and quality changes', () => {
+    const diff = diffSprints(previous, current);
+
+    assert.deepEqual(diff, {
+      previousSyncTimestamp: '2026-01-01T10:00:00.000Z',
+      added: [{ taskId: 'new', name: 'Ticket new' }],
+      closed: [{ taskId: 'gone', name: 'Ticket gone', status: 'in review' }],
+      statusChanges: [{ taskId: 'b', name: 'Ticket b', from: 'open', to: 'in progress' }],
+      priorityChanges: [{ taskId: 'b', name: 'Ticket b', from: 'low', to: null }],
+      qualityChanges: [{ taskId: 'b', name: 'Ticket b', from: 2, to: 4, delta: 2 }],
+    });
+    assert.equal(countChanges(diff), 5);
+  });
+
+  it('closes nothing when the current sync was truncated', () => {
+    const diff = diffSprints(previous, sprint(current.tickets, { truncated: true, pagesRead: 10 }));
+
+    assert.deepEqual(diff.closed, []);
+    assert.deepEqual(diff.added.map(c => c.taskId), ['new']);
+  });
+
+  it('refers to tickets still in the sprint by position', () => {
+    const lines = formatSprintChanges(diffSprints(previous, current), new Map([['b', 2], ['new', 3]]));
+
+    assert.deepEqual(lines, [
+      '- **New**: #3 Ticket new',
+      '- **Closed**: Ticket gone (last seen as in review)',
+      '- **Status**: #2 Ticket b: open → in progress',
+      '- **Priority**: #2 Ticket b: low → none',
+      '- **Quality**: #2 Ticket b: 2/5 → 4/5 (+2)',
+    ]);
+  });
+});
+
+describe('renderSprint with a previous sync', () => {
+  const current = sprint([ticket('a'), ticket('new')]);
+
+  it('adds a changes section and the diff', () => {
+    const rendered = renderSprint({ ...current, previous: sprint([ticket('a')], { syncTimestamp: '2026-01-01T10:00:00Z' }) });
+
+    assert.match(rendered.markdown, /## Changes since last sync/);
+    assert.match(rendered.markdown, /_Compared with the sync at 2026-01-01T10:00:00\.000Z_/);
+    assert.deepEqual(rendered.changes?.added.map(c => c.taskId), ['new']);
+  });
+
+  it('leaves the section out when the previous timestamp is invalid', () => {
+    const rendered = renderSprint({ ...current, previous: sprint([ticket('a')], { syncTimestamp: 'yesterday-ish' }) });
+
+    assert.equal(rendered.changes, undefined);
+    assert.doesNotMatch(rendered.markdown, /Changes since last sync/);
+  });
+});
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { renderSprint } from '../src/render/index.js';
+import { SprintDocumentSchema, type AnalyzedTicket, type SprintFormatterInput } from '../src/types/index.js';
+
+function ticket(id: string, name: string, priority: string, points?: number): AnalyzedTicket {
+  return {
+    ticket: {
+      id,
+      name,
+      status: { status: 'open' },
+      priority: { id: priority, priority, color: '' },
+      assignees: [{ id: 1, username: 'ana' }],
+      url: `https://app.clickup.com/t/${id}`,
+    },
+    analysis: {
+      qualityScore: 4,
+      qualityGaps: ['No steps, "repro" missing'],
+      affectedFiles: ['src/a.ts', 'src/b.ts'],
+      complexityTag: 'fix',
+      suggestedApproach: 'Fix it',
+      ...(points !== undefined && { estimate: { points, confidence: 0.8, source: 'llm' as const } }),
+    },
+  };
+}
+
+const input: SprintFormatterInput = {
+  tickets: [
+    ticket('t2', '=HYPERLINK("http://evil")', 'low'),
+    ticket('t1', '<script>alert(1)</script> & "quotes"', 'urgent', 3),
+  ],
+  metadata: { syncTimestamp: '2026-01-05T10:00:00.000Z', ticketCount: 2, listId: 'L1', listName: 'Sprint <b>' },
+  formats: ['json', 'html', 'csv'],
+};
+
+describe('renderSprint formats', () => {
+  it('only renders artifacts that were asked for', () => {
+    assert.equal(renderSprint({ ...input, formats: undefined }).artifacts, undefined);
+    assert.equal(renderSprint({ ...input, formats: ['markdown'] }).artifacts, undefined);
+    assert.deepEqual(Object.keys(renderSprint({ ...input, formats: ['csv'] }).artifacts!), ['csv']);
+  });
+
+  it('quotes CSV cells and neutralizes formulas', () => {
+    const lines = renderSprint(input).artifacts!.csv!.split('\r\n');
+
+    assert.equal(lines.length, 4); // Header, two tickets, trailing newline
+    assert.match(lines[0], /^Position,ClickUp ID,Name,/);
+    assert.match(lines[1], /^1,t1,"<script>alert\(1\)<\/script> & ""quotes""",open,urgent,ana,/);
+    assert.match(lines[1], /,"No steps, ""repro"" missing",3,llm,/);
+    assert.match(lines[1], /,src\/a\.ts; src\/b\.ts,/);
+    assert.match(lines[2], /^2,t2,"'=HYPERLINK\(""http:\/\/evil""\)",/);
+  });
+
+  it('escapes ticket and list text in the HTML page', () => {
+    const html = renderSprint(input).artifacts!.html!;
+
+    assert.ok(!html.includes('<script>alert'));
+    assert.ok(!html.includes('Sprint <b>'));
+    assert.match(html, /&lt;script&gt;alert\(1\)&lt;\/script&gt; &amp; &quot;quotes&quot;/);
+    assert.match(html, /<a href="https:\/\/app\.clickup\.com\/t\/t1">t1<\/a>/);
+  });
+
+  it('builds a JSON document that matches its schema, in sprint order', () => {
+    const document = renderSprint(input).artifacts!.json!;
+
+    assert.doesNotThrow(() => SprintDocumentSchema.parse(document));
+    assert.deepEqual(document.tickets.map(t => [t.position, t.ticket.id]), [[1, 't1'], [2, 't2']]);
+    assert.deepEqual(document.summary, { ticketCount: 2, fixes: 2, features: 0, averageQuality: 4, totalPoints: 3 });
+    assert.deepEqual(document.ordering, { sortBy: 'priority' });
+  });
+});
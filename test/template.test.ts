@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compileTemplate, TemplateError } from '../src/render/index.js';
+
+const render = (source: string, context: unknown) => compileTemplate(source)(context);
+
+describe('compileTemplate values', () => {
+  it('looks up paths and renders missing values as empty', () => {
+    assert.equal(render('{{sprint.name}} ({{sprint.missing}}{{nothing.at.all}})', { sprint: { name: 'S1' } }), 'S1 ()');
+    assert.equal(render('{{count}} {{zero}} {{flag}}', { count: 3, zero: 0, flag: false }), '3 0 false');
+  });
+
+  it('escapes {{value}} but not {{{value}}} when given an escape function', () => {
+    const template = compileTemplate('{{title}} | {{{title}}}', { escape: value => value.replace(/</g, '&lt;') });
+
+    assert.equal(template({ title: '<b>' }), '&lt;b> | <b>');
+  });
+
+  it('leaves values untouched without an escape function', () => {
+    assert.equal(render('{{title}}', { title: '<b>&' }), '<b>&');
+  });
+
+  it('drops comments', () => {
+    assert.equal(render('a{{! not shown }}b', {}), 'ab');
+  });
+});
+
+describe('compileTemplate sections', () => {
+  it('iterates with @index, @number, this and ../ lookups', () => {
+    const output = render('{{#each items}}{{@number}}.{{this.name}}@{{../list}}{{#unless @last}}, {{/unless}}{{/each}}', {
+      list: 'L',
+      items: [{ name: 'a' }, { name: 'b' }],
+    });
+
+    assert.equal(output, '1.a@L, 2.b@L');
+  });
+
+  it('reaches the root from nested blocks', () => {
+    const output = render('{{#each groups}}{{#each tickets}}{{@root.prefix}}{{this}}{{@index}} {{/each}}{{/each}}', {
+      prefix: '#',
+      groups: [{ tickets: ['x', 'y'] }, { tickets: ['z'] }],
+    });
+
+    assert.equal(output, '#x0 #y1 #z0 ');
+  });
+
+  it('renders {{else}} for empty lists and falsy conditions', () => {
+    const template = compileTemplate('{{#each items}}{{this}}{{else}}none{{/each}}/{{#if items}}some{{else}}empty{{/if}}');
+
+    assert.equal(template({ items: [] }), 'none/empty');
+    assert.equal(template({ items: ['a'] }), 'a/some');
+  });
+
+  it('removes lines holding only a block tag', () => {
+    const output = render('# Tickets\n{{#each items}}\n  - {{this}}\n{{/each}}\nDone\n', { items: ['a', 'b'] });
+
+    assert.equal(output, '# Tickets\n  - a\n  - b\nDone\n');
+  });
+});
+
+describe('compileTemplate errors', () => {
+  it('rejects malformed templates with the offset', () => {
+    assert.throws(() => compileTemplate('{{#each items}}x'), (error: unknown) => {
+      assert.ok(error instanceof TemplateError);
+      assert.equal(error.offset, 0);
+      assert.match(error.message, /Unclosed \{\{#each\}\} \(at character 0\)/);
+      return true;
+    });
+    assert.throws(() => compileTemplate('{{#if a}}x{{/each}}'), /Unexpected \{\{\/each\}\}/);
+    assert.throws(() => compileTemplate('{{#with a}}{{/with}}'), /Unknown block helper "with"/);
+    assert.throws(() => compileTemplate('{{else}}'), /outside a block/);
+  });
+});
@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { groupSubtotal, groupTickets, routeArea, sortTicketsBy } from '../src/planning/index.js';
+import type { AnalyzedTicket, ClickUpTask, TicketAnalysis } from '../src/types/index.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function ticket(id: string, fields: Partial<ClickUpTask> = {}, analysis: Partial<TicketAnalysis> = {}): AnalyzedTicket {
+  return {
+    ticket: { id, name: `Ticket ${id}`, status: { status: 'open' }, ...fields },
+    analysis: { qualityScore: 3, qualityGaps: [], affectedFiles: [], complexityTag: 'fix', suggestedApproach: '', ...analysis },
+  };
+}
+
+function priority(level: string) {
+  return { priority: { id: level, priority: level, color: '' } };
+}
+
+function points(value: number) {
+  return { estimate: { points: value, confidence: 0.8 } };
+}
+
+const ids = (tickets: AnalyzedTicket[]) => tickets.map(t => t.ticket.id);
+
+describe('sortTicketsBy', () => {
+  it('sorts by priority, then quality, then fixes before features', () => {
+    const sorted = sortTicketsBy([
+      ticket('low', priority('low')),
+      ticket('feature', priority('high'), { complexityTag: 'feature' }),
+      ticket('fix', priority('high')),
+      ticket('polished', priority('high'), { qualityScore: 5 }),
+      ticket('none'),
+    ]);
+
+    assert.deepEqual(ids(sorted), ['polished', 'fix', 'feature', 'low', 'none']);
+  });
+
+  it('sorts by due date with undated tickets last, in priority order', () => {
+    const sorted = sortTicketsBy([
+      ticket('undated-low', priority('low')),
+      ticket('later', { due_date: String(Date.UTC(2030, 5, 2)) }),
+      ticket('sooner', { due_date: '2030-06-01' }),
+      ticket('undated-urgent', priority('urgent')),
+    ], 'dueDate');
+
+    assert.deepEqual(ids(sorted), ['sooner', 'later', 'undated-urgent', 'undated-low']);
+  });
+
+  it('sorts by estimate with unestimated tickets last', () => {
+    const sorted = sortTicketsBy([
+      ticket('none'),
+      ticket('eight', {}, points(8)),
+      ticket('one', {}, points(1)),
+    ], 'estimate');
+
+    assert.deepEqual(ids(sorted), ['one', 'eight', 'none']);
+  });
+
+  it('lets weights decide the weighted order', () => {
+    const tickets = [
+      ticket('urgent-big', priority('urgent'), points(13)),
+      ticket('low-due', { ...priority('low'), due_date: String(Date.now() + DAY_MS) }, points(1)),
+    ];
+
+    assert.deepEqual(ids(sortTicketsBy(tickets, 'weighted', { priority: 1, quality: 0, estimate: 0, dueDate: 0 })), ['urgent-big', 'low-due']);
+    assert.deepEqual(ids(sortTicketsBy(tickets, 'weighted', { priority: 0, dueDate: 1 })), ['low-due', 'urgent-big']);
+  });
+});
+
+describe('routeArea', () => {
+  it('uses the first route segment, skipping route groups and slots', () => {
+    assert.equal(routeArea('app/(shop)/checkout/page.tsx'), '/checkout');
+    assert.equal(routeArea('src/app/@modal/settings/profile/page.tsx'), '/settings');
+    assert.equal(routeArea('pages/blog/[slug].tsx'), '/blog');
+    assert.equal(routeArea('app/page.tsx'), '/');
+  });
+
+  it('reads Remix flat routes from the file name', () => {
+    assert.equal(routeArea('app/routes/checkout.$id.tsx'), '/checkout');
+    assert.equal(routeArea('app/routes/_index.tsx'), '/');
+  });
+
+  it('uses the top directory for other files', () => {
+    assert.equal(routeArea('src/lib/auth.ts'), 'lib');
+    assert.equal(routeArea('README.md'), '/');
+  });
+});
+
+describe('groupTickets', () => {
+  it('groups in order of first appearance and keeps the ticket order', () => {
+    const groups = groupTickets([
+      ticket('a', { assignees: [{ id: 1, username: 'bo' }, { id: 2, username: 'ana' }] }),
+      ticket('b'),
+      ticket('c', { assignees: [{ id: 1, username: 'bo' }] }),
+    ], 'assignee');
+
+    assert.deepEqual(groups.map(g => [g.key, ids(g.tickets)]), [
+      ['bo', ['a', 'c']],
+      ['unassigned', ['b']],
+    ]);
+  });
+
+  it('falls back to placeholder keys for untagged and unmapped tickets', () => {
+    const tickets = [ticket('a', { tags: [{ name: 'api' }] }, { affectedFiles: ['app/(shop)/cart/page.tsx'] }), ticket('b')];
+
+    assert.deepEqual(groupTickets(tickets, 'tag').map(g => g.key), ['api', 'untagged']);
+    assert.deepEqual(groupTickets(tickets, 'routeArea').map(g => g.key), ['/cart', 'unmapped']);
+  });
+
+  it('summarizes a group', () => {
+    assert.equal(groupSubtotal([ticket('a', {}, points(3)), ticket('b', {}, { qualityScore: 4 })]), '2 tickets, 3 points, avg quality 3.5');
+    assert.equal(groupSubtotal([]), '0 tickets, 0 points, avg quality 0');
+  });
+});
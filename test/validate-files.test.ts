@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { normalizePath, validateAffectedFiles } from '../src/analysis/index.js';
+import type { CodebaseMap } from '../src/types/index.js';
+
+const codebaseMap: CodebaseMap = {
+  routes: [
+    { path: '/checkout', dir: 'app/(shop)/checkout', files: ['page.tsx'] },
+    { path: '/about', dir: 'app/(marketing)/about', files: ['page.tsx'] },
+    { path: '/about', dir: 'app/(legal)/about', files: ['page.tsx'] },
+    { path: '/api/orders', dir: 'app/api/orders', files: ['route.ts'] },
+  ],
+  components: ['components/CartSummary.tsx', 'components/ui/Button.tsx'],
+  actions: ['app/actions/orders.ts'],
+  graph: { files: ['lib/payments/stripe.ts'], imports: [[]] },
+};
+
+describe('normalizePath', () => {
+  it('strips quotes, leading slashes, symbol suffixes and case', () => {
+    assert.equal(normalizePath(' ./App/API/orders/route.ts (GET) '), 'app/api/orders/route.ts');
+    assert.equal(normalizePath('`/components/ui/Button.tsx`'), 'components/ui/button.tsx');
+    assert.equal(normalizePath('app\\actions\\orders.ts#saveOrder'), 'app/actions/orders.ts');
+    assert.equal(normalizePath('//lib//payments/stripe.ts'), 'lib/payments/stripe.ts');
+  });
+});
+
+describe('validateAffectedFiles', () => {
+  it('keeps exact matches once, in the map\'s spelling', () => {
+    const result = validateAffectedFiles(['./components/cartsummary.tsx', 'components/CartSummary.tsx', 'lib/payments/stripe.ts'], codebaseMap);
+
+    assert.deepEqual(result.affectedFiles, ['components/CartSummary.tsx', 'lib/payments/stripe.ts']);
+    assert.deepEqual(result.fileMatches.map(m => m.confidence), [1, 1]);
+    assert.equal(result.invalidCount, 0);
+  });
+
+  it('restores a route group the model left out when only one file fits', () => {
+    const result = validateAffectedFiles(['app/checkout/page.tsx'], codebaseMap);
+
+    assert.deepEqual(result.fileMatches, [{ path: 'app/(shop)/checkout/page.tsx', confidence: 0.95, correctedFrom: 'app/checkout/page.tsx' }]);
+    assert.equal(result.invalidCount, 1);
+  });
+
+  it('does not pick between route groups that leave the same path', () => {
+    const result = validateAffectedFiles(['app/about/page.tsx'], codebaseMap);
+
+    assert.notEqual(result.fileMatches[0]?.confidence, 0.95);
+  });
+
+  it('fuzzy-corrects near misses and reports the rest as hallucinated', () => {
+    const result = validateAffectedFiles(['components/CartSumary.tsx', 'components/Button.tsx', 'src/server/db.ts'], codebaseMap);
+
+    assert.deepEqual(result.affectedFiles, ['components/CartSummary.tsx', 'components/ui/Button.tsx']);
+    assert.ok(result.fileMatches.every(m => m.confidence >= 0.7 && m.confidence < 1 && m.correctedFrom));
+    assert.deepEqual(result.hallucinatedFiles, ['src/server/db.ts']);
+    assert.equal(result.invalidCount, 3);
+  });
+
+  it('accepts extra known paths, such as files from the embedding index', () => {
+    const result = validateAffectedFiles(['scripts/seed.ts'], codebaseMap, ['scripts/seed.ts']);
+
+    assert.deepEqual(result.affectedFiles, ['scripts/seed.ts']);
+    assert.deepEqual(result.hallucinatedFiles, []);
+  });
+});
@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { describe, it, type TestContext } from 'node:test';
+import { createServer } from '../client/webhook-receiver.js';
+import { SIGNATURE_VERSION, signaturePayload, signWebhook, WEBHOOK_HEADERS } from '../src/webhooks/index.js';
+
+// Deliveries signed by the server, verified by the local webhook receiver. The bodies
+// have no sprintMarkdown, so a verified delivery gets a 400 and nothing is written.
+
+const BODY = JSON.stringify({ metadata: { ticketCount: 0 } });
+
+async function receiver(
+  t: TestContext,
+  secrets: { keyId?: string; secret: string }[],
+  options: { toleranceSeconds?: number; allowLegacy?: boolean } = {},
+) {
+  const server = createServer(0, secrets, false, options);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  t.after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+
+  return async (headers: Record<string, string>, body = BODY) => {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+    return { status: response.status, body: await response.json() };
+  };
+}
+
+function withoutV1(headers: Record<string, string>): Record<string, string> {
+  const { [WEBHOOK_HEADERS.signatures]: _signatures, [WEBHOOK_HEADERS.timestamp]: _timestamp, [WEBHOOK_HEADERS.delivery]: _delivery, ...rest } = headers;
+  return rest;
+}
+
+describe('signWebhook', () => {
+  it('signs timestamp, delivery id and body with every key', () => {
+    const headers = signWebhook('{}', [{ id: 'new', secret: 's2' }, { id: 'old', secret: 's1' }], { deliveryId: 'd1', timestamp: 1700000000 });
+
+    assert.equal(signaturePayload(1700000000, 'd1', '{}'), '1700000000.d1.{}');
+    assert.equal(headers[WEBHOOK_HEADERS.delivery], 'd1');
+    assert.equal(headers[WEBHOOK_HEADERS.timestamp], '1700000000');
+    assert.match(headers[WEBHOOK_HEADERS.signatures], new RegExp(`^${SIGNATURE_VERSION}=new:[0-9a-f]{64}, ${SIGNATURE_VERSION}=old:[0-9a-f]{64}$`));
+    assert.match(headers[WEBHOOK_HEADERS.legacySignature], /^sha256=[0-9a-f]{64}$/);
+  });
+
+  it('leaves the legacy header out on request and sends no signatures without keys', () => {
+    assert.equal(signWebhook('{}', [{ id: 'k', secret: 's' }], { deliveryId: 'd1', legacy: false })[WEBHOOK_HEADERS.legacySignature], undefined);
+    assert.deepEqual(Object.keys(signWebhook('{}', [], { deliveryId: 'd1' })), [WEBHOOK_HEADERS.delivery, WEBHOOK_HEADERS.timestamp]);
+  });
+});
+
+describe('webhook receiver verification', () => {
+  it('accepts a v1 signature and refuses a tampered body', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }]);
+    const headers = signWebhook(BODY, [{ id: 'default', secret: 'shared' }], { deliveryId: 'd1', legacy: false });
+
+    assert.equal((await post(headers)).status, 400);
+    assert.deepEqual(await post({ ...headers, [WEBHOOK_HEADERS.delivery]: 'd2' }, BODY.replace('0', '9')), {
+      status: 401,
+      body: { error: 'Invalid signature' },
+    });
+  });
+
+  it('keeps verifying with the old secret while keys rotate', async t => {
+    const post = await receiver(t, [{ keyId: 'old', secret: 's1' }]);
+    const keys = [{ id: 'new', secret: 's2' }, { id: 'old', secret: 's1' }];
+
+    assert.equal((await post(signWebhook(BODY, keys, { deliveryId: 'd1' }))).status, 400);
+    // A key-scoped secret only matches signatures under its own key id
+    assert.equal((await post(signWebhook(BODY, [{ id: 'other', secret: 's1' }], { deliveryId: 'd2' }))).status, 401);
+  });
+
+  it('refuses timestamps outside the tolerance window, in either direction', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }], { toleranceSeconds: 60 });
+    const now = Math.floor(Date.now() / 1000);
+    const keys = [{ id: 'default', secret: 'shared' }];
+
+    for (const timestamp of [now - 120, now + 120]) {
+      const response = await post(signWebhook(BODY, keys, { deliveryId: `d${timestamp}`, timestamp }));
+      assert.deepEqual(response, { status: 401, body: { error: 'Timestamp outside the tolerance window' } });
+    }
+    assert.equal((await post(signWebhook(BODY, keys, { deliveryId: 'd-now', timestamp: now - 30 }))).status, 400);
+  });
+
+  it('acknowledges a replayed delivery id without processing it again', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }]);
+    const headers = signWebhook(BODY, [{ id: 'default', secret: 'shared' }], { deliveryId: 'd1' });
+
+    assert.equal((await post(headers)).status, 400);
+    assert.deepEqual(await post(headers), { status: 200, body: { success: true, duplicate: true } });
+  });
+
+  it('recognises a signed body replayed with only its legacy signature', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }]);
+    const headers = signWebhook(BODY, [{ id: 'default', secret: 'shared' }], { deliveryId: 'd1' });
+
+    assert.equal((await post(headers)).status, 400);
+    assert.deepEqual(await post(withoutV1(headers)), { status: 200, body: { success: true, duplicate: true } });
+  });
+
+  it('refuses legacy signatures with allowLegacy off', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }], { allowLegacy: false });
+    const headers = withoutV1(signWebhook(BODY, [{ id: 'default', secret: 'shared' }], { deliveryId: 'd1' }));
+
+    const response = await post(headers);
+    assert.equal(response.status, 401);
+    assert.match(response.body.error, /v1 signature is required/);
+  });
+
+  it('refuses unsigned deliveries once secrets are configured', async t => {
+    const post = await receiver(t, [{ secret: 'shared' }]);
+
+    assert.deepEqual(await post({}), { status: 401, body: { error: 'Missing signature header' } });
+  });
+
+  it('rejects a tolerance that is not a positive number', () => {
+    assert.throws(() => createServer(0, [], false, { toleranceSeconds: Number('abc') }), /positive number/);
+    assert.throws(() => createServer(0, [], false, { toleranceSeconds: 0 }), /positive number/);
+  });
+});